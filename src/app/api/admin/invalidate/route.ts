@@ -0,0 +1,27 @@
+import { authorizeAdminRequest } from '@/lib/admin-auth';
+import { clearCachedData } from '@/lib/data-refresh-scheduler';
+import { getCurrentSnapshotId } from '@/lib/snapshots';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Admin endpoint to make this instance reload the current data on its next request
+ */
+export async function POST(request: NextRequest) {
+  const denied = authorizeAdminRequest(request);
+  if (denied) return denied;
+
+  try {
+    clearCachedData();
+
+    return NextResponse.json(
+      { invalidated: true, snapshot: getCurrentSnapshotId() },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Error in admin invalidate route:', error);
+    return NextResponse.json(
+      { error: 'Failed to invalidate caches' },
+      { status: 500 }
+    );
+  }
+}
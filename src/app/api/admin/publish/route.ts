@@ -0,0 +1,69 @@
+import { authorizeAdminRequest, readJsonBody } from '@/lib/admin-auth';
+import { DataSchemaError } from '@/lib/cmhc-schema';
+import { clearCachedData } from '@/lib/data-refresh-scheduler';
+import { withRefreshLock } from '@/lib/refresh-jobs';
+import { listSnapshots, publishSnapshot } from '@/lib/snapshots';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Admin endpoint to publish a snapshot, typically one staged by a dry run.
+ * Body: { "snapshot": "<id>" }; without an id the newest staged snapshot is published.
+ */
+export async function POST(request: NextRequest) {
+  const denied = authorizeAdminRequest(request);
+  if (denied) return denied;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await readJsonBody(request);
+  } catch (error) {
+    return NextResponse.json(
+      { error: `Invalid request body: ${error instanceof Error ? error.message : error}` },
+      { status: 400 }
+    );
+  }
+
+  if (body.snapshot !== undefined && typeof body.snapshot !== 'string') {
+    return NextResponse.json(
+      { error: 'Invalid request body: snapshot must be a snapshot id' },
+      { status: 400 }
+    );
+  }
+
+  let id = body.snapshot;
+  if (!id) {
+    const staged = listSnapshots().find(snapshot => snapshot.staged);
+    if (!staged) {
+      return NextResponse.json({ error: 'No staged snapshot to publish' }, { status: 404 });
+    }
+    id = staged.id;
+  }
+
+  if (!listSnapshots().some(snapshot => snapshot.id === id)) {
+    return NextResponse.json({ error: `Snapshot ${id} does not exist` }, { status: 404 });
+  }
+
+  try {
+    // Moving the current pointer while a refresh publishes its own snapshot would race it
+    const snapshotId = id;
+    const pointer = await withRefreshLock('publish', () => publishSnapshot(snapshotId));
+    if (!pointer) {
+      return NextResponse.json({ error: 'A refresh is running; publish again once it has finished' }, { status: 409 });
+    }
+    clearCachedData();
+
+    return NextResponse.json(pointer, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    console.error('Error in admin publish route:', error);
+    if (error instanceof DataSchemaError) {
+      return NextResponse.json(
+        { error: `Snapshot ${id} is invalid: ${error.message}` },
+        { status: 422 }
+      );
+    }
+    return NextResponse.json(
+      { error: `Failed to publish snapshot ${id}` },
+      { status: 500 }
+    );
+  }
+}
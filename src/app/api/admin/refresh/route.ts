@@ -0,0 +1,83 @@
+import { authorizeAdminRequest, readJsonBody } from '@/lib/admin-auth';
+import { startDataRefresh } from '@/lib/data-refresh-scheduler';
+import { fetchStaticData } from '@/lib/fetch-static-data';
+import { readRefreshLock, withRefreshLock } from '@/lib/refresh-jobs';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Where callers follow a refresh started by this endpoint
+const STATUS_PATH = '/api/refresh/status';
+
+/**
+ * Admin endpoint to refresh the data now.
+ * A refresh runs in the background: the response is 202 with the running job,
+ * whose progress and outcome are reported by /api/refresh/status.
+ * Body (all optional): { "dryRun": true } fetches, validates and diffs a new
+ * snapshot and stages it without publishing, and answers when it is done;
+ * { "redownload": true } downloads the table even when StatCan has no new release.
+ */
+export async function POST(request: NextRequest) {
+  const denied = authorizeAdminRequest(request);
+  if (denied) return denied;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await readJsonBody(request);
+  } catch (error) {
+    return NextResponse.json(
+      { error: `Invalid request body: ${error instanceof Error ? error.message : error}` },
+      { status: 400 }
+    );
+  }
+
+  const { dryRun = false, redownload = false } = body;
+  if (typeof dryRun !== 'boolean' || typeof redownload !== 'boolean') {
+    return NextResponse.json(
+      { error: 'Invalid request body: dryRun and redownload must be true or false' },
+      { status: 400 }
+    );
+  }
+
+  const lock = readRefreshLock();
+  if (lock) {
+    return NextResponse.json(
+      { error: `A refresh is already running (job ${lock.jobId}, since ${lock.acquiredAt})` },
+      { status: 409 }
+    );
+  }
+
+  try {
+    if (dryRun) {
+      // Hold the refresh lock so the dry run cannot interleave its snapshot and diff with a refresh
+      const result = await withRefreshLock('dry-run', () => fetchStaticData({ dryRun: true }));
+      if (!result) {
+        return NextResponse.json({ error: 'A refresh is already running' }, { status: 409 });
+      }
+
+      if (!result.success) {
+        const message = result.error instanceof Error ? result.error.message : String(result.error);
+        return NextResponse.json({ error: `Dry run failed: ${message}` }, { status: 502 });
+      }
+
+      return NextResponse.json(
+        { dryRun: true, staged: result.snapshot, recordCount: result.recordCount, diff: result.diff },
+        { headers: { 'Cache-Control': 'no-store' } }
+      );
+    }
+
+    const job = startDataRefresh({ redownload, trigger: 'manual' });
+    if (!job) {
+      return NextResponse.json({ error: 'A refresh is already running' }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { job, status: STATUS_PATH },
+      { status: 202, headers: { 'Cache-Control': 'no-store', 'Location': STATUS_PATH } }
+    );
+  } catch (error) {
+    console.error('Error in admin refresh route:', error);
+    return NextResponse.json(
+      { error: 'Failed to run the refresh' },
+      { status: 500 }
+    );
+  }
+}
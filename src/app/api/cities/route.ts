@@ -0,0 +1,83 @@
+import { getCityOptions, getAvailableMunicipalities, CityOption } from '@/lib/cmhc';
+import { DataSchemaError } from '@/lib/cmhc-schema';
+import { getDataVersion, getVersionHeaders, matchesVersion } from '@/lib/data-store';
+import { findProvince, DEFAULT_PROVINCE } from '@/lib/geography';
+import { getDataIndex } from '@/lib/data-index';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface CitiesResponse {
+  province: string;
+  // Survey year the bedroom types and categories come from
+  year?: number;
+  cities: CityOption[];
+  municipalities: { name: string, market: string }[];
+}
+
+// City lists of the dataset version they were built from, per province
+let built: { version: string, provinces: Map<string, CitiesResponse> } | null = null;
+
+/**
+ * API endpoint listing the cities with rents in the latest survey year of a
+ * province, with the bedroom types and categories of each, and the
+ * municipalities reported inside them with the market each one is compared against
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const province = (searchParams.get('province') || DEFAULT_PROVINCE).toUpperCase();
+
+  if (!findProvince(province)) {
+    return NextResponse.json(
+      { error: `Unknown province: ${province}. Use a two-letter code such as ON or BC` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Answer conditional requests for a data version the client already has
+    const version = await getDataVersion();
+    if (matchesVersion(request.headers.get('if-none-match'), version)) {
+      return new NextResponse(null, { status: 304, headers: getVersionHeaders(version) });
+    }
+    
+    if (!built || built.version !== version) {
+      built = { version, provinces: new Map() };
+    }
+    
+    let body = built.provinces.get(province);
+    if (!body) {
+      const cities = await getCityOptions(province);
+      const names = new Set(cities.map(option => option.name));
+      const municipalities = (await getAvailableMunicipalities(province)).filter(m => names.has(m.market));
+      
+      body = { province, year: (await getDataIndex()).latestYear, cities, municipalities };
+      built.provinces.set(province, body);
+    }
+
+    // The city list only changes when the static data is refreshed, so cache like /api/compare
+    const cacheDuration = parseInt(process.env.API_CACHE_DURATION || '3600', 10);
+
+    return NextResponse.json(
+      body,
+      {
+        headers: {
+          'Cache-Control': `public, s-maxage=${cacheDuration}, stale-while-revalidate=${cacheDuration * 2}`,
+          'CDN-Cache-Control': `public, max-age=${cacheDuration}`,
+          'Vercel-CDN-Cache-Control': `public, max-age=${cacheDuration}`,
+          ...getVersionHeaders(version)
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error in cities route:', error);
+    if (error instanceof DataSchemaError) {
+      return NextResponse.json(
+        { error: `Rental data file is invalid: ${error.message}` },
+        { status: 500 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to list cities' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,12 @@
-import { getAverage } from '@/lib/cmhc';
+import { MUNICIPALITY_COVERAGE_NOTE } from '@/lib/census-subdivisions';
+import { getAverage, getRentAdjustment, getVacancyRate, matchCity, suggestCities } from '@/lib/cmhc';
+import { DataSchemaError } from '@/lib/cmhc-schema';
+import { getDataVersion, getVersionHeaders, matchesVersion } from '@/lib/data-store';
+import { getClockMonth, getDataAge } from '@/lib/data-age';
+import { describeQuality } from '@/lib/data-quality';
+import { findProvince, DEFAULT_PROVINCE } from '@/lib/geography';
+import { describeSurveyPeriod } from '@/lib/survey-periods';
+import { classifyVacancyRate } from '@/lib/vacancy';
 import { NextRequest, NextResponse } from 'next/server';
 
 export async function GET(request: NextRequest) {
@@ -10,8 +18,9 @@ export async function GET(request: NextRequest) {
   const beds = searchParams.get('beds');
   const priceStr = searchParams.get('price');
   const category = searchParams.get('category') || '';
+  const province = (searchParams.get('province') || DEFAULT_PROVINCE).toUpperCase();
   
-  console.log(`🔴 API-COMPARE: Parameters - city: ${city}, beds: ${beds}, price: ${priceStr}, category: ${category}`);
+  console.log(`🔴 API-COMPARE: Parameters - city: ${city}, province: ${province}, beds: ${beds}, price: ${priceStr}, category: ${category}`);
 
   // Validate parameters
   if (!city || !beds || !priceStr) {
@@ -22,6 +31,14 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  if (!findProvince(province)) {
+    console.log('🔴 API-COMPARE: Unknown province');
+    return NextResponse.json(
+      { error: `Unknown province: ${province}. Use a two-letter code such as ON or BC` },
+      { status: 400 }
+    );
+  }
+
   // Validate price
   const price = parseFloat(priceStr);
   if (isNaN(price) || price <= 0) {
@@ -33,10 +50,37 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    console.log(`🔴 API-COMPARE: Calling getAverage for ${city}, ${beds}${category ? ', ' + category : ''}`);
+    // Answer conditional requests for a data version the client already has. The data age and
+    // adjustment move on each month, so the ETag names the month as well as the data version
+    const version = await getDataVersion();
+    const tag = `${version}-${getClockMonth()}`;
+    const versionHeaders = { ...getVersionHeaders(version), 'ETag': `"${tag}"` };
+    if (matchesVersion(request.headers.get('if-none-match'), tag)) {
+      return new NextResponse(null, { status: 304, headers: versionHeaders });
+    }
+    
+    // A city we could not place gets the closest area names so the UI can offer them
+    const match = await matchCity(city, province);
+    if (!match) {
+      const suggestions = await suggestCities(city, province);
+      console.log(`🔴 API-COMPARE: Unknown city ${city}, suggesting: ${suggestions.join(', ') || 'none'}`);
+      return NextResponse.json(
+        {
+          error: suggestions.length > 0
+            ? `No rental data for "${city}". Did you mean ${suggestions[0]}? ${MUNICIPALITY_COVERAGE_NOTE}`
+            : `No rental data for "${city}". ${MUNICIPALITY_COVERAGE_NOTE}`,
+          suggestions
+        },
+        { status: 404 }
+      );
+    }
+
+    // Municipalities such as Mississauga are compared against the market that reports them (Toronto)
+    const market = match.market;
+    console.log(`🔴 API-COMPARE: Calling getAverage for ${market}${market !== city ? ` (from ${city}, by ${match.matchedBy})` : ''}, ${beds}${category ? ', ' + category : ''}`);
     
     // Get average rent for the specified city, bedroom count, and category (if provided)
-    const averageResult = await getAverage(city, beds, category || undefined);
+    const averageResult = await getAverage(market, beds, category || undefined, undefined, province);
     console.log('🔴 API-COMPARE: getAverage returned:', JSON.stringify(averageResult));
     
     if (averageResult.value === null) {
@@ -53,32 +97,57 @@ export async function GET(request: NextRequest) {
     const delta = price - average;
     const percent = delta / average;
     
-    // Calculate adjusted average based on data age (if available)
-    // Assuming approximately 5% annual rent increase
+    // Data age is worked out from the survey's reference period at request time
+    const dataAge = getDataAge(averageResult.refDate);
+    
+    // Data older than 6 months is carried forward with the province's rent CPI,
+    // or the fallback annual rate when the CPI does not cover the survey month
     let adjustedAverage = average;
-    const dataAgeMention = averageResult.dataAge
-      ? `${averageResult.dataAge} months old`
+    const dataAgeMention = dataAge
+      ? `${dataAge} months old`
       : 'unknown age';
-    let adjustmentApplied = false;
+    const adjustment = dataAge && dataAge > 6
+      ? await getRentAdjustment(averageResult.refDate, province)
+      : null;
+    const adjustmentApplied = adjustment !== null;
     
-    if (averageResult.dataAge && averageResult.dataAge > 6) {
-      // Apply an adjustment for data older than 6 months
-      // Using 5% annual increase as a baseline, calculated monthly
-      const monthlyIncreaseRate = 0.05 / 12;
-      const adjustment = 1 + monthlyIncreaseRate * averageResult.dataAge;
-      adjustedAverage = average * adjustment;
-      adjustmentApplied = true;
+    if (adjustment) {
+      adjustedAverage = average * adjustment.factor;
+      console.log(`🔴 API-COMPARE: Adjusted by ${adjustment.model} from ${adjustment.fromMonth} to ${adjustment.toMonth} (x${adjustment.factor.toFixed(4)})`);
     }
 
+    // Vacancy rate for the same area and survey year, to show how tight the market is
+    const vacancyResult = await getVacancyRate(market, beds, averageResult.year, province);
+    
     const result = {
+      province,
+      // The CMHC market the comparison used, and the city it was asked for
+      market: {
+        name: market,
+        requested: city,
+        matchedBy: match.matchedBy
+      },
       average,
       delta,
       percent,
-      dataAge: averageResult.dataAge,
+      // Survey the average comes from, e.g. "October 2024"
+      survey: describeSurveyPeriod(averageResult.refDate),
+      dataAge,
       dataAgeMention,
       adjustedAverage: adjustmentApplied ? adjustedAverage : undefined,
       adjustmentApplied,
-      category: category || undefined, // Include the selected category in the response
+      // How the adjusted average was worked out: the model and the months it spans
+      adjustment: adjustment || undefined,
+      // Category whose rent was used: the one asked for, or the nearest category containing it
+      category: averageResult.category,
+      // StatCan reliability grade of the average (worst grade among the cells averaged)
+      quality: averageResult.quality ? describeQuality(averageResult.quality) : undefined,
+      vacancy: vacancyResult.rate !== null ? {
+        rate: vacancyResult.rate,
+        year: vacancyResult.year,
+        survey: describeSurveyPeriod(vacancyResult.refDate),
+        market: classifyVacancyRate(vacancyResult.rate),
+      } : undefined,
     };
     
     console.log('🔴 API-COMPARE: Returning result:', JSON.stringify(result));
@@ -94,12 +163,19 @@ export async function GET(request: NextRequest) {
         headers: {
           'Cache-Control': `public, s-maxage=${cacheDuration}, stale-while-revalidate=${cacheDuration * 2}`,
           'CDN-Cache-Control': `public, max-age=${cacheDuration}`,
-          'Vercel-CDN-Cache-Control': `public, max-age=${cacheDuration}`
+          'Vercel-CDN-Cache-Control': `public, max-age=${cacheDuration}`,
+          ...versionHeaders
         },
       }
     );
   } catch (error) {
     console.error('🔴 API-COMPARE: Error in compare route:', error);
+    if (error instanceof DataSchemaError) {
+      return NextResponse.json(
+        { error: `Rental data file is invalid: ${error.message}` },
+        { status: 500 }
+      );
+    }
     return NextResponse.json(
       { error: 'Failed to process comparison request' },
       { status: 500 }
@@ -0,0 +1,74 @@
+import { getDataVersion, getVersionHeaders, matchesVersion } from '@/lib/data-store';
+import { readSnapshotDiff } from '@/lib/snapshots';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * API endpoint returning the diff report of a data refresh: every cell added,
+ * removed or changed relative to the data it replaced.
+ * Defaults to the current snapshot; ?snapshot=<id> picks another, ?city= narrows the cells.
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const snapshot = searchParams.get('snapshot') || undefined;
+  const city = searchParams.get('city');
+
+  try {
+    const diff = readSnapshotDiff(snapshot);
+
+    if (!diff) {
+      return NextResponse.json(
+        { error: snapshot ? `No diff report for snapshot ${snapshot}` : 'No diff report for the current data' },
+        { status: 404 }
+      );
+    }
+
+    // The report is identified by the snapshot it describes, so a publish or rollback changes the ETag
+    const version = await getDataVersion();
+    const versionHeaders = { ...getVersionHeaders(version), 'ETag': `"${diff.toSnapshot}"` };
+    if (matchesVersion(request.headers.get('if-none-match'), diff.toSnapshot)) {
+      return new NextResponse(null, { status: 304, headers: versionHeaders });
+    }
+
+    // Narrow the report to one city when asked
+    const matchesCity = (cell: { city: string }) => !city || cell.city.toLowerCase() === city.toLowerCase();
+    const result = city
+      ? {
+          ...diff,
+          added: diff.added.filter(matchesCity),
+          removed: diff.removed.filter(matchesCity),
+          changed: diff.changed.filter(matchesCity)
+        }
+      : diff;
+
+    // A named snapshot's report never changes, so cache it like /api/compare; the current
+    // snapshot's report changes with every publish or rollback, so caches revalidate it each time
+    const cacheDuration = parseInt(process.env.API_CACHE_DURATION || '3600', 10);
+    const cacheHeaders: Record<string, string> = snapshot
+      ? {
+          'Cache-Control': `public, s-maxage=${cacheDuration}, stale-while-revalidate=${cacheDuration * 2}`,
+          'CDN-Cache-Control': `public, max-age=${cacheDuration}`,
+          'Vercel-CDN-Cache-Control': `public, max-age=${cacheDuration}`
+        }
+      : {
+          'Cache-Control': 'public, max-age=0, must-revalidate',
+          'CDN-Cache-Control': 'public, max-age=0, must-revalidate',
+          'Vercel-CDN-Cache-Control': 'public, max-age=0, must-revalidate'
+        };
+
+    return NextResponse.json(
+      result,
+      {
+        headers: {
+          ...cacheHeaders,
+          ...versionHeaders
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error in diff route:', error);
+    return NextResponse.json(
+      { error: 'Failed to read the diff report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { calculateGuidelineRent, parseDate, GuidelineError, ONTARIO_RENT_GUIDELINES } from '@/lib/rent-guideline';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * API endpoint checking a proposed rent against Ontario's rent increase guideline.
+ * Takes the rent at move-in, the move-in date and the proposed rent, and optionally
+ * the date the new rent takes effect (default today) and the date the unit was
+ * first occupied (units first occupied after November 15, 2018 are exempt).
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const rentStr = searchParams.get('rent');
+  const moveInStr = searchParams.get('moveIn');
+  const proposedStr = searchParams.get('proposed');
+  const effectiveStr = searchParams.get('effective');
+  const firstOccupiedStr = searchParams.get('firstOccupied');
+
+  if (!rentStr || !moveInStr || !proposedStr) {
+    return NextResponse.json(
+      { error: 'Missing required parameters: rent, moveIn, proposed' },
+      { status: 400 }
+    );
+  }
+
+  const startingRent = parseFloat(rentStr);
+  const proposedRent = parseFloat(proposedStr);
+  if (isNaN(startingRent) || startingRent <= 0 || isNaN(proposedRent) || proposedRent <= 0) {
+    return NextResponse.json(
+      { error: 'rent and proposed must be positive numbers' },
+      { status: 400 }
+    );
+  }
+
+  const moveIn = parseDate(moveInStr);
+  const effective = effectiveStr ? parseDate(effectiveStr) : undefined;
+  const firstOccupied = firstOccupiedStr ? parseDate(firstOccupiedStr) : undefined;
+  if (!moveIn || effective === null || firstOccupied === null) {
+    return NextResponse.json(
+      { error: 'Dates must be valid calendar dates given as YYYY-MM-DD' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = calculateGuidelineRent({ startingRent, moveIn, proposedRent, effective, firstOccupied });
+
+    return NextResponse.json(
+      { province: 'ON', ...result, guidelines: ONTARIO_RENT_GUIDELINES },
+      {
+        headers: {
+          // The default effective date is today, so don't let a shared cache keep the answer
+          'Cache-Control': 'private, no-store'
+        }
+      }
+    );
+  } catch (error) {
+    if (error instanceof GuidelineError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error in guideline route:', error);
+    return NextResponse.json(
+      { error: 'Failed to check the rent increase' },
+      { status: 500 }
+    );
+  }
+}
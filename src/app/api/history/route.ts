@@ -0,0 +1,100 @@
+import { MUNICIPALITY_COVERAGE_NOTE } from '@/lib/census-subdivisions';
+import { getHistory, matchCity, suggestCities } from '@/lib/cmhc';
+import { DataSchemaError } from '@/lib/cmhc-schema';
+import { getDataVersion, getVersionHeaders, matchesVersion } from '@/lib/data-store';
+import { findProvince, DEFAULT_PROVINCE } from '@/lib/geography';
+import { describeSurveyPeriod } from '@/lib/survey-periods';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * API endpoint returning the average rent per survey year for a city and bedroom count
+ */
+export async function GET(request: NextRequest) {
+  // Get query parameters
+  const searchParams = request.nextUrl.searchParams;
+  const city = searchParams.get('city');
+  const beds = searchParams.get('beds');
+  const category = searchParams.get('category') || '';
+
+  // Validate parameters
+  if (!city || !beds) {
+    return NextResponse.json(
+      { error: 'Missing required parameters: city, beds' },
+      { status: 400 }
+    );
+  }
+
+  const province = (searchParams.get('province') || DEFAULT_PROVINCE).toUpperCase();
+  if (!findProvince(province)) {
+    return NextResponse.json(
+      { error: `Unknown province: ${province}. Use a two-letter code such as ON or BC` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Answer conditional requests for a data version the client already has
+    const version = await getDataVersion();
+    if (matchesVersion(request.headers.get('if-none-match'), version)) {
+      return new NextResponse(null, { status: 304, headers: getVersionHeaders(version) });
+    }
+    
+    const match = await matchCity(city, province);
+    if (!match) {
+      return NextResponse.json(
+        { error: `No rental data for "${city}". ${MUNICIPALITY_COVERAGE_NOTE}`, suggestions: await suggestCities(city, province) },
+        { status: 404 }
+      );
+    }
+
+    const history = await getHistory(match.market, beds, category || undefined, province);
+    
+    if (history.length === 0) {
+      return NextResponse.json(
+        { error: 'No data available for the specified city and bedroom count' },
+        { status: 404 }
+      );
+    }
+
+    const result = {
+      city,
+      province,
+      market: { name: match.market, requested: city, matchedBy: match.matchedBy },
+      beds,
+      category: category || undefined,
+      history: history.map(point => ({
+        year: point.year,
+        period: point.period,
+        survey: describeSurveyPeriod(point.period),
+        average: point.value
+      }))
+    };
+    
+    // History only changes when the static data is refreshed, so cache like /api/compare
+    const cacheDuration = parseInt(process.env.API_CACHE_DURATION || '3600', 10);
+    
+    return NextResponse.json(
+      result,
+      {
+        headers: {
+          'Cache-Control': `public, s-maxage=${cacheDuration}, stale-while-revalidate=${cacheDuration * 2}`,
+          'CDN-Cache-Control': `public, max-age=${cacheDuration}`,
+          'Vercel-CDN-Cache-Control': `public, max-age=${cacheDuration}`,
+          ...getVersionHeaders(version)
+        },
+      }
+    );
+  } catch (error) {
+    console.error('📈 API-HISTORY: Error in history route:', error);
+    if (error instanceof DataSchemaError) {
+      return NextResponse.json(
+        { error: `Rental data file is invalid: ${error.message}` },
+        { status: 500 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to process history request' },
+      { status: 500 }
+    );
+  }
+}
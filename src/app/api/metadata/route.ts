@@ -0,0 +1,69 @@
+import { getDataMetadata } from '@/lib/cmhc';
+import { DataSchemaError } from '@/lib/cmhc-schema';
+import { getDataVersion, getVersionHeaders, matchesVersion } from '@/lib/data-store';
+import { describeSurveyPeriod } from '@/lib/survey-periods';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * API endpoint describing the published dataset: when it was generated and
+ * which Statistics Canada release it came from
+ */
+export async function GET(request: NextRequest) {
+  // Read the request before anything that can throw, so the try below never
+  // catches the error Next uses to mark the route as dynamic at build time
+  const ifNoneMatch = request.headers.get('if-none-match');
+
+  try {
+    // Answer conditional requests for a data version the client already has
+    const version = await getDataVersion();
+    if (matchesVersion(ifNoneMatch, version)) {
+      return new NextResponse(null, { status: 304, headers: getVersionHeaders(version) });
+    }
+    
+    const metadata = await getDataMetadata();
+    
+    if (!metadata) {
+      return NextResponse.json(
+        { error: 'Dataset metadata is not available' },
+        { status: 404 }
+      );
+    }
+
+    const result = {
+      version,
+      generatedAt: metadata.generatedAt,
+      releaseTime: metadata.releaseTime,
+      dataYear: metadata.dataYear,
+      years: metadata.years,
+      periods: metadata.periods,
+      // Most recent survey, e.g. "October 2024"
+      latestSurvey: describeSurveyPeriod(metadata.periods[metadata.periods.length - 1])
+    };
+    
+    const cacheDuration = parseInt(process.env.API_CACHE_DURATION || '3600', 10);
+    
+    return NextResponse.json(
+      result,
+      {
+        headers: {
+          'Cache-Control': `public, s-maxage=${cacheDuration}, stale-while-revalidate=${cacheDuration * 2}`,
+          'CDN-Cache-Control': `public, max-age=${cacheDuration}`,
+          'Vercel-CDN-Cache-Control': `public, max-age=${cacheDuration}`,
+          ...getVersionHeaders(version)
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error in metadata route:', error);
+    if (error instanceof DataSchemaError) {
+      return NextResponse.json(
+        { error: `Rental data file is invalid: ${error.message}` },
+        { status: 500 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to load dataset metadata' },
+      { status: 500 }
+    );
+  }
+}
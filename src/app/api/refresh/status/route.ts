@@ -0,0 +1,39 @@
+import { getNextCheckTime } from '@/lib/data-refresh-scheduler';
+import { getLastJobs, readJobHistory, readRefreshLock } from '@/lib/refresh-jobs';
+import { NextResponse } from 'next/server';
+
+// Read the job history on every request; without a request argument Next would prerender this at build time
+export const dynamic = 'force-dynamic';
+
+// Number of recent jobs included in the response
+const RECENT_JOB_COUNT = 10;
+
+/**
+ * API endpoint reporting the data refresh jobs: the last successful and last
+ * failed runs, the refresh in progress (if any) and when the next check is due
+ */
+export async function GET() {
+  try {
+    const { lastSuccess, lastFailure } = getLastJobs();
+    const lock = readRefreshLock();
+
+    const result = {
+      running: lock ? { jobId: lock.jobId, since: lock.acquiredAt } : null,
+      lastSuccess,
+      lastFailure,
+      nextCheckAt: getNextCheckTime().toISOString(),
+      recentJobs: readJobHistory().slice(-RECENT_JOB_COUNT).reverse()
+    };
+
+    // Status changes with every job, so never cache it
+    return NextResponse.json(result, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    console.error('Error in refresh status route:', error);
+    return NextResponse.json(
+      { error: 'Failed to read the refresh status' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { resolveCity } from '@/lib/cmhc';
+import { DataSchemaError } from '@/lib/cmhc-schema';
+import { getDataVersion, getVersionHeaders } from '@/lib/data-store';
+import { parseFsa, isRuralFsa, findFsaArea, ONTARIO_FSA_LETTERS } from '@/lib/postal-codes';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * API endpoint resolving a postal code to the city (CMHC rental market area) to compare against.
+ * Covers Ontario through its forward sortation areas (the first three characters).
+ */
+export async function GET(request: NextRequest) {
+  const postal = request.nextUrl.searchParams.get('postal');
+
+  if (!postal) {
+    return NextResponse.json(
+      { error: 'Missing required parameter: postal' },
+      { status: 400 }
+    );
+  }
+
+  const fsa = parseFsa(postal);
+  if (!fsa) {
+    return NextResponse.json(
+      { error: `${postal} is not a Canadian postal code` },
+      { status: 400 }
+    );
+  }
+
+  if (!ONTARIO_FSA_LETTERS.includes(fsa[0])) {
+    return NextResponse.json(
+      { error: 'Postal code lookup only covers Ontario so far; please pick your city from the list', fsa },
+      { status: 404 }
+    );
+  }
+
+  if (isRuralFsa(fsa)) {
+    return NextResponse.json(
+      { error: `${fsa} is a rural postal area covering several towns; please pick your city from the list`, fsa },
+      { status: 404 }
+    );
+  }
+
+  const area = findFsaArea(fsa);
+  if (!area) {
+    return NextResponse.json(
+      { error: `No rental market area is known for ${fsa}; please pick your city from the list`, fsa },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const version = await getDataVersion();
+    const city = await resolveCity(area, 'ON');
+
+    if (!city) {
+      return NextResponse.json(
+        { error: `${fsa} is in the ${area} area, which has no rental data`, fsa, area },
+        { status: 404 }
+      );
+    }
+
+    // The mapping only changes with the code or the data, so cache like /api/compare
+    const cacheDuration = parseInt(process.env.API_CACHE_DURATION || '3600', 10);
+
+    return NextResponse.json(
+      { postal, fsa, province: 'ON', city },
+      {
+        headers: {
+          'Cache-Control': `public, s-maxage=${cacheDuration}, stale-while-revalidate=${cacheDuration * 2}`,
+          'CDN-Cache-Control': `public, max-age=${cacheDuration}`,
+          'Vercel-CDN-Cache-Control': `public, max-age=${cacheDuration}`,
+          ...getVersionHeaders(version)
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error in resolve route:', error);
+    if (error instanceof DataSchemaError) {
+      return NextResponse.json(
+        { error: `Rental data file is invalid: ${error.message}` },
+        { status: 500 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to resolve the postal code' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { FC, FormEvent, useState } from 'react';
+import type { GuidelineResult } from '@/lib/rent-guideline';
+
+interface GuidelineCheckProps {
+  // Rent the landlord is asking for, prefilled from the comparison
+  proposedRent: number;
+}
+
+const formatMoney = (value: number): string => value.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+
+/**
+ * GuidelineCheck component that checks a proposed increase against the Ontario rent increase guideline
+ */
+const GuidelineCheck: FC<GuidelineCheckProps> = ({ proposedRent }) => {
+  const [startingRent, setStartingRent] = useState<string>('');
+  const [moveIn, setMoveIn] = useState<string>('');
+  const [proposed, setProposed] = useState<string>(proposedRent > 0 ? String(proposedRent) : '');
+  const [firstOccupied, setFirstOccupied] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [result, setResult] = useState<GuidelineResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ rent: startingRent, moveIn, proposed });
+      if (firstOccupied) params.set('firstOccupied', firstOccupied);
+
+      const response = await fetch(`/api/guideline?${params.toString()}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setResult(null);
+        setError(data.error || 'Failed to check the rent increase');
+        return;
+      }
+
+      setResult(data);
+    } catch (error) {
+      console.error('Error checking the rent increase:', error);
+      setError('Failed to check the rent increase');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="guideline-check">
+      <h3>Is Your Rent Increase Allowed?</h3>
+      <p className="input-hint">
+        Ontario limits yearly increases for sitting tenants to the provincial rent increase guideline,
+        once every 12 months.
+      </p>
+
+      <form onSubmit={handleSubmit}>
+        <div className="form-grid">
+          <div className="form-group">
+            <label htmlFor="guideline-rent">Rent when you moved in ($)</label>
+            <input
+              type="number"
+              id="guideline-rent"
+              value={startingRent}
+              onChange={(e) => setStartingRent(e.target.value)}
+              min="1"
+              step="any"
+              required
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="guideline-move-in">Move-in date</label>
+            <input
+              type="date"
+              id="guideline-move-in"
+              value={moveIn}
+              onChange={(e) => setMoveIn(e.target.value)}
+              required
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="guideline-proposed">Proposed new rent ($)</label>
+            <input
+              type="number"
+              id="guideline-proposed"
+              value={proposed}
+              onChange={(e) => setProposed(e.target.value)}
+              min="1"
+              step="any"
+              required
+            />
+          </div>
+        </div>
+        <div className="form-group">
+          <label htmlFor="guideline-first-occupied">Date the unit was first lived in (optional)</label>
+          <input
+            type="date"
+            id="guideline-first-occupied"
+            value={firstOccupied}
+            onChange={(e) => setFirstOccupied(e.target.value)}
+          />
+          <p className="input-hint">Units first occupied after November 15, 2018 are exempt from the guideline</p>
+        </div>
+        <button type="submit" className="btn btn-secondary" disabled={loading}>
+          {loading ? 'Checking...' : 'Check Increase'}
+        </button>
+      </form>
+
+      {error && <div className="error-message guideline-error">{error}</div>}
+
+      {result && (
+        <div className={`guideline-result ${result.allowed ? 'guideline-allowed' : 'guideline-over'}`}>
+          {result.exempt ? (
+            <p>
+              This unit was first occupied after November 15, 2018, so the guideline does not limit its increases.
+            </p>
+          ) : (
+            <>
+              <p>
+                Maximum rent under the guideline on {result.effective}: <strong>${formatMoney(result.maximumRent!)}</strong>
+              </p>
+              <p>
+                {result.allowed
+                  ? 'The proposed rent is within the guideline.'
+                  : `The proposed rent is $${formatMoney(result.excess)} above the guideline; the landlord needs approval from the Landlord and Tenant Board to charge it.`}
+              </p>
+              {result.increases.length === 0 ? (
+                <p className="input-hint">No increase is allowed until 12 months after you moved in.</p>
+              ) : (
+                <ul className="guideline-increases">
+                  {result.increases.map(increase => (
+                    <li key={increase.date}>
+                      {increase.date}: +{increase.percent.toFixed(1)}% → ${formatMoney(increase.rent)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GuidelineCheck;
@@ -2,11 +2,12 @@ import Script from 'next/script'
 
 interface PageHeadProps {
   city?: string;
+  provinceName?: string;
   averageRent?: number;
   dataAge?: string;
 }
 
-export default function PageHead({ city = 'Ontario', averageRent, dataAge }: PageHeadProps) {
+export default function PageHead({ city = 'Ontario', provinceName = 'Ontario', averageRent, dataAge }: PageHeadProps) {
   // Generate city-specific or general schema based on available data
   const generatePageSchema = () => {
     const baseSchema = {
@@ -35,7 +36,7 @@ export default function PageHead({ city = 'Ontario', averageRent, dataAge }: Pag
           ...baseSchema.mainEntity,
           "@type": "Product",
           "name": `Average Rent in ${city}`,
-          "description": `Average apartment rent in ${city}, Ontario based on Statistics Canada data`,
+          "description": `Average apartment rent in ${city}, ${provinceName} based on Statistics Canada data`,
           "offers": {
             "@type": "Offer",
             "priceCurrency": "CAD",
@@ -67,7 +68,7 @@ export default function PageHead({ city = 'Ontario', averageRent, dataAge }: Pag
                 "name": "How accurate is Rent Fair Ontario's rent comparison data?",
                 "acceptedAnswer": {
                   "@type": "Answer",
-                  "text": "Rent Fair Ontario uses official data from Statistics Canada, sourced from the Canada Mortgage and Housing Corporation (CMHC) Rental Market Survey. For data older than 6 months, we apply an estimated 5% annual increase to better reflect current market conditions."
+                  "text": "Rent Fair Ontario uses official data from Statistics Canada, sourced from the Canada Mortgage and Housing Corporation (CMHC) Rental Market Survey. For data older than 6 months, we carry the average forward with the Statistics Canada Consumer Price Index for rented accommodation in your province, from the survey month to the latest month published, or with a fallback annual increase, compounded monthly, when that index is not available."
                 }
               },
               {
@@ -75,7 +76,7 @@ export default function PageHead({ city = 'Ontario', averageRent, dataAge }: Pag
                 "name": "What cities does Rent Fair Ontario cover?",
                 "acceptedAnswer": {
                   "@type": "Answer",
-                  "text": "Rent Fair Ontario covers major cities across Ontario including Toronto, Ottawa, Hamilton, London, Windsor, Kingston, Kitchener-Waterloo, Sudbury, Thunder Bay, and many others."
+                  "text": "Rent Fair Ontario covers major cities across Ontario including Toronto, Ottawa, Hamilton, London, Windsor, Kingston, Kitchener-Waterloo, Sudbury, Thunder Bay, and many others. Cities in other provinces are available by choosing a province."
                 }
               },
               {
@@ -3,22 +3,79 @@
 import { useState, useEffect, FormEvent, useRef, Suspense } from 'react';
 import { useRouter } from 'next/navigation';
 import ShareButton from '@/app/components/ShareButton';
+import GuidelineCheck from '@/app/components/GuidelineCheck';
 import PageHead from '@/app/components/PageHead';
 import SearchParamsProvider, { useSearchParamsContext } from '@/app/components/SearchParamsProvider';
-import { ONTARIO_CITIES, HOUSING_CATEGORIES } from '@/lib/cmhc';
+import { HOUSING_CATEGORIES, CityOption } from '@/lib/cmhc';
+import { findHousingCategory, getCategoryDepth, ALL_CATEGORY } from '@/lib/housing-categories';
+import { PROVINCES, DEFAULT_PROVINCE, findProvince } from '@/lib/geography';
+import type { RentAdjustment } from '@/lib/rent-adjustment';
+import { describeSurveyPeriod } from '@/lib/survey-periods';
 
 // Type for comparison result
 interface ComparisonResult {
+  // CMHC market the comparison used, e.g. Toronto for Mississauga
+  market?: {
+    name: string;
+    requested: string;
+    matchedBy: 'name' | 'municipality' | 'alias' | 'fuzzy';
+  };
   average: number;
   delta: number;
   percent: number;
+  // Survey the average comes from, e.g. "October 2024"
+  survey?: string;
   dataAge?: number;
   dataAgeMention: string;
   adjustedAverage?: number;
   adjustmentApplied: boolean;
+  // Model behind adjustedAverage and the months it spans
+  adjustment?: RentAdjustment;
   category?: string;
+  quality?: {
+    grade: string;
+    label: string;
+    reliable: boolean;
+  };
+  vacancy?: {
+    rate: number;
+    year?: number;
+    survey?: string;
+    market: 'tight' | 'balanced' | 'loose';
+  };
 }
 
+// What each market condition means for a tenant's bargaining power
+const MARKET_DESCRIPTIONS: Record<'tight' | 'balanced' | 'loose', string> = {
+  tight: 'Tight market: few units are vacant, so landlords have the upper hand.',
+  balanced: 'Balanced market: supply and demand are roughly even.',
+  loose: 'Loose market: many units are vacant, so tenants have room to negotiate.'
+};
+
+// Explains how the estimated current value was adjusted, e.g. with the CPI from October 2024 to September 2026
+const describeAdjustment = (adjustment: RentAdjustment): string => {
+  const span = `${describeSurveyPeriod(adjustment.fromMonth)} to ${describeSurveyPeriod(adjustment.toMonth)}`;
+  const change = `${adjustment.factor >= 1 ? '+' : ''}${((adjustment.factor - 1) * 100).toFixed(1)}%`;
+
+  if (adjustment.model === 'cpi' && adjustment.index) {
+    return `with the Statistics Canada rent index (CPI, rented accommodation) for ${adjustment.index.geo}, ${span} (${change})`;
+  }
+  return `using a ${((adjustment.annualRate || 0) * 100).toFixed(1).replace(/\.0$/, '')}% annual increase compounded monthly, ${span} (${change}), as no rent index covers the survey month`;
+};
+
+// Published dataset details from /api/metadata
+interface DataInfo {
+  generatedAt: string;
+  releaseTime?: string;
+  dataYear?: number;
+  latestSurvey?: string;
+}
+
+// Helper function to format a date like "January 27, 2025"
+const formatDate = (value: string): string => {
+  return new Date(value).toLocaleDateString('en-CA', { year: 'numeric', month: 'long', day: 'numeric' });
+};
+
 // Helper function to format money with commas
 const formatMoney = (value: number): string => {
   return value.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
@@ -34,16 +91,26 @@ const BEDROOM_OPTIONS = [
 
 // Main page content that uses search params
 function MainContent() {
+  const [province, setProvince] = useState<string>(DEFAULT_PROVINCE);
+  // Cities of the selected province with their bedroom types and categories, from /api/cities
+  const [cityOptions, setCityOptions] = useState<CityOption[]>([]);
   const [city, setCity] = useState<string>('Toronto');
+  // Market of each municipality in the city list that CMHC reports inside a larger area
+  const [municipalityMarkets, setMunicipalityMarkets] = useState<Record<string, string>>({});
+  // Optional postal code; when given it picks the city before comparing
+  const [postal, setPostal] = useState<string>('');
   const [beds, setBeds] = useState<string>('1');
   const [price, setPrice] = useState<number>(0);
   const [category, setCategory] = useState<string>('');
-  const [availableCategories, setAvailableCategories] = useState<string[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [result, setResult] = useState<ComparisonResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Closest area names offered when the city could not be found
+  const [suggestions, setSuggestions] = useState<string[]>([]);
   const [showLegend, setShowLegend] = useState<boolean>(false);
   const [showDataExplanation, setShowDataExplanation] = useState<boolean>(false);
+  const [showGuideline, setShowGuideline] = useState<boolean>(false);
+  const [dataInfo, setDataInfo] = useState<DataInfo | null>(null);
   
   const searchParams = useSearchParamsContext();
   const router = useRouter();
@@ -55,49 +122,93 @@ function MainContent() {
     const bedsParam = searchParams.get('beds');
     const priceParam = searchParams.get('price');
     const categoryParam = searchParams.get('category');
+    const provinceParam = searchParams.get('province');
+    const provinceVal = provinceParam && findProvince(provinceParam) ? provinceParam.toUpperCase() : DEFAULT_PROVINCE;
 
     if (cityParam && bedsParam && priceParam) {
+      setProvince(provinceVal);
       setCity(cityParam);
       setBeds(bedsParam);
       setPrice(Number(priceParam));
       if (categoryParam) {
-        setCategory(categoryParam);
+        // Shared links may use a category's former name, such as Highrise
+        setCategory(findHousingCategory(categoryParam)?.name || categoryParam);
       }
-      compareRent(cityParam, bedsParam, Number(priceParam), categoryParam || undefined);
+      compareRent(provinceVal, cityParam, bedsParam, Number(priceParam), categoryParam || undefined);
     }
   }, [searchParams]);
 
-  // Fetch available categories when city or beds change
+  // Municipalities such as Mississauga are listed alongside the areas that report them
+  const cityNames = Array.from(new Set([...cityOptions.map(option => option.name), ...Object.keys(municipalityMarkets)]))
+    .sort((a, b) => a.localeCompare(b));
+  const selectedCity = cityOptions.find(option => option.name === (municipalityMarkets[city] || city));
+  const availableCategories = (selectedCity && selectedCity.categories[beds]) || [];
+
+  // Load the cities for the selected province
   useEffect(() => {
-    const fetchCategories = async () => {
+    const fetchCities = async () => {
       try {
-        const response = await fetch(`/api/cmhc-data?city=${encodeURIComponent(city)}&beds=${encodeURIComponent(beds)}`);
+        const response = await fetch(`/api/cities?province=${encodeURIComponent(province)}`);
         if (response.ok) {
           const data = await response.json();
-          if (data.categories && Array.isArray(data.categories)) {
-            setAvailableCategories(data.categories);
+          if (Array.isArray(data.cities) && data.cities.length > 0) {
+            const options: CityOption[] = data.cities;
+            const municipalities: { name: string, market: string }[] = Array.isArray(data.municipalities) ? data.municipalities : [];
+            setCityOptions(options);
+            setMunicipalityMarkets(Object.fromEntries(municipalities.map(m => [m.name, m.market])));
+            // Keep the selected city only if the province has it
+            const names = [...options.map(option => option.name), ...municipalities.map(m => m.name)];
+            setCity(current => names.includes(current) ? current : options[0].name);
           }
         }
       } catch (err) {
-        console.error('Error fetching categories:', err);
+        console.error('Error fetching cities:', err);
+      }
+    };
+
+    fetchCities();
+  }, [province]);
+
+  // Fetch the published dataset details once for the data banner
+  useEffect(() => {
+    const fetchDataInfo = async () => {
+      try {
+        const response = await fetch('/api/metadata');
+        if (response.ok) {
+          setDataInfo(await response.json());
+        }
+      } catch (err) {
+        console.error('Error fetching data info:', err);
       }
     };
 
-    if (city && beds) {
-      fetchCategories();
+    fetchDataInfo();
+  }, []);
+
+  // Keep the bedroom type and category to what the latest survey has for the selected city
+  useEffect(() => {
+    if (selectedCity && !selectedCity.beds.includes(beds)) {
+      setBeds(selectedCity.beds.includes('1') ? '1' : selectedCity.beds[0]);
+    }
+  }, [selectedCity, beds]);
+
+  useEffect(() => {
+    if (category && availableCategories.length > 0 && !availableCategories.includes(category)) {
+      setCategory('');
     }
-  }, [city, beds]);
+  }, [availableCategories, category]);
 
-  const compareRent = async (cityVal: string, bedsVal: string, priceVal: number, categoryVal?: string) => {
+  const compareRent = async (provinceVal: string, cityVal: string, bedsVal: string, priceVal: number, categoryVal?: string) => {
     setLoading(true);
     setError(null);
+    setSuggestions([]);
     try {
       // Create a controller to abort the request if it takes too long
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 seconds timeout
       
       const response = await fetch(
-        `/api/compare?city=${encodeURIComponent(cityVal)}&beds=${encodeURIComponent(bedsVal)}&price=${priceVal}` + (categoryVal ? `&category=${encodeURIComponent(categoryVal)}` : ''),
+        `/api/compare?province=${encodeURIComponent(provinceVal)}&city=${encodeURIComponent(cityVal)}&beds=${encodeURIComponent(bedsVal)}&price=${priceVal}` + (categoryVal ? `&category=${encodeURIComponent(categoryVal)}` : ''),
         { signal: controller.signal }
       );
       
@@ -112,6 +223,9 @@ function MainContent() {
           if (errorData.error) {
             errorMessage = errorData.error;
           }
+          if (Array.isArray(errorData.suggestions)) {
+            setSuggestions(errorData.suggestions);
+          }
         } catch (jsonError) {
           // Failed to parse error response as JSON
         }
@@ -124,6 +238,9 @@ function MainContent() {
       
       // Update URL with query parameters
       const params = new URLSearchParams();
+      if (provinceVal !== DEFAULT_PROVINCE) {
+        params.set('province', provinceVal);
+      }
       params.set('city', cityVal);
       params.set('beds', bedsVal);
       params.set('price', String(priceVal));
@@ -162,9 +279,39 @@ function MainContent() {
     }
   };
 
-  const handleSubmit = (e: FormEvent) => {
+  // Look up the city for the postal code; shows the error and returns null when there is none
+  const resolvePostal = async (postalVal: string): Promise<{ province: string, city: string } | null> => {
+    try {
+      const response = await fetch(`/api/resolve?postal=${encodeURIComponent(postalVal)}`);
+      const data = await response.json();
+      
+      if (!response.ok) {
+        setError(data.error || `Error ${response.status}: ${response.statusText}`);
+        return null;
+      }
+      
+      setError(null);
+      setProvince(data.province);
+      setCity(data.city);
+      return { province: data.province, city: data.city };
+    } catch (err) {
+      console.error('Error resolving postal code:', err);
+      setError('Could not look up the postal code');
+      return null;
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
-    compareRent(city, beds, price, category);
+    
+    if (postal.trim()) {
+      const resolved = await resolvePostal(postal.trim());
+      if (!resolved) return;
+      compareRent(resolved.province, resolved.city, beds, price, category);
+      return;
+    }
+    
+    compareRent(province, city, beds, price, category);
   };
 
   const getResultCardClass = () => {
@@ -179,6 +326,7 @@ function MainContent() {
     <div className="home-container">
       <PageHead 
         city={city}
+        provinceName={findProvince(province)?.name}
         averageRent={result?.average}
         dataAge={result?.dataAgeMention}
       />
@@ -191,7 +339,7 @@ function MainContent() {
           </span>
         </h1>
         <p className="tagline" itemProp="description">
-          Compare your rent to average market rates in Ontario
+          Compare your rent to average market rates in {findProvince(province)?.name || 'Canada'}
         </p>
         <div className="data-certification-badge">
           <div className="data-badge-icon">
@@ -210,7 +358,15 @@ function MainContent() {
           <div className="certification-text">
             <p className="warning-title">Official Statistics Canada Data</p>
             <p>Data sourced from the Canada Mortgage and Housing Corporation (CMHC) Rental Market Survey.</p>
-            <p className="certification-date">Last data update: July 2025</p>
+            {dataInfo && (
+              <p className="certification-date">Last data update: {formatDate(dataInfo.generatedAt)}</p>
+            )}
+            {dataInfo?.releaseTime && (
+              <p className="certification-date">Statistics Canada release: {formatDate(dataInfo.releaseTime)}</p>
+            )}
+            {dataInfo?.latestSurvey && (
+              <p className="certification-date">Latest survey: {dataInfo.latestSurvey}</p>
+            )}
           </div>
           <div className="certification-verify">
             <a href="https://www150.statcan.gc.ca/t1/tbl1/en/tv.action?pid=3410013301" target="_blank" rel="noopener noreferrer" className="verify-link">
@@ -227,6 +383,37 @@ function MainContent() {
 
       <section className="form-section">
         <form onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label htmlFor="postal">Postal code (optional)</label>
+            <input
+              type="text"
+              id="postal"
+              value={postal}
+              onChange={(e) => setPostal(e.target.value)}
+              onBlur={() => postal.trim() && resolvePostal(postal.trim())}
+              placeholder="e.g. M5V 2T6"
+              maxLength={7}
+              autoComplete="postal-code"
+            />
+            <p className="input-hint">Ontario postal codes pick your rental market area for you</p>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="province">Province</label>
+            <select
+              id="province"
+              value={province}
+              onChange={(e) => setProvince(e.target.value)}
+              required
+            >
+              {PROVINCES.map((provinceOption) => (
+                <option key={provinceOption.code} value={provinceOption.code}>
+                  {provinceOption.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div className="form-grid">
             <div className="form-group">
               <label htmlFor="city">City</label>
@@ -236,9 +423,10 @@ function MainContent() {
                 onChange={(e) => setCity(e.target.value)}
                 required
               >
-                {ONTARIO_CITIES.map((cityOption) => (
+                {cityNames.length === 0 && <option value={city}>{city}</option>}
+                {cityNames.map((cityOption) => (
                   <option key={cityOption} value={cityOption}>
-                    {cityOption}
+                    {municipalityMarkets[cityOption] ? `${cityOption} (${municipalityMarkets[cityOption]} market)` : cityOption}
                   </option>
                 ))}
               </select>
@@ -252,7 +440,7 @@ function MainContent() {
                 onChange={(e) => setBeds(e.target.value)}
                 required
               >
-                {BEDROOM_OPTIONS.map((option) => (
+                {BEDROOM_OPTIONS.filter(option => !selectedCity || selectedCity.beds.includes(option.value)).map((option) => (
                   <option key={option.value} value={option.value}>
                     {option.label}
                   </option>
@@ -291,11 +479,14 @@ function MainContent() {
               onChange={(e) => setCategory(e.target.value)}
             >
               <option value="">All Categories</option>
-              {HOUSING_CATEGORIES.map((cat) => (
-                <option key={cat.name} value={cat.name}>
-                  {cat.name}
-                </option>
-              ))}
+              {HOUSING_CATEGORIES
+                .filter(cat => cat.name !== ALL_CATEGORY && (availableCategories.length === 0 || availableCategories.includes(cat.name)))
+                .map((cat) => (
+                  <option key={cat.name} value={cat.name}>
+                    {/* Subcategories are indented under the category they are part of */}
+                    {'\u00a0\u00a0'.repeat(getCategoryDepth(cat.name) - 1)}{cat.name}
+                  </option>
+                ))}
             </select>
           </div>
 
@@ -312,6 +503,24 @@ function MainContent() {
       {error && (
         <div className="error-message">
           {error}
+          {suggestions.length > 0 && (
+            <div className="suggestions">
+              <span>Did you mean:</span>
+              {suggestions.map(suggestion => (
+                <button
+                  key={suggestion}
+                  type="button"
+                  className="suggestion-button"
+                  onClick={() => {
+                    setCity(suggestion);
+                    compareRent(province, suggestion, beds, price, category);
+                  }}
+                >
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       )}
 
@@ -327,6 +536,14 @@ function MainContent() {
             </div>
           </div>
           
+          {/* Which market the city was compared against, when it is not the city itself */}
+          {result.market && result.market.name !== result.market.requested && (
+            <p className="market-note">
+              {result.market.requested} is part of the <strong>{result.market.name}</strong> rental market,
+              so your rent is compared against {result.market.name} averages.
+            </p>
+          )}
+          
           {/* Comparison highlight - enhanced with icons */}
           <div className="comparison-highlight">
             {result.percent > 0.15 ? (
@@ -398,20 +615,47 @@ function MainContent() {
           {/* Data age warning banner - moved down */}
           {result.dataAge && result.dataAge > 6 && (
             <div className="data-age-warning">
-              <p className="warning-title">Data is {result.dataAgeMention}</p>
+              <p className="warning-title">Data is {result.dataAgeMention}{result.survey ? ` (${result.survey} survey)` : ''}</p>
               <p>Reflects average of all existing rental contracts (including long-term tenants paying below-market rates), not just current market listings which are typically higher for new renters.</p>
             </div>
           )}
           
+          {/* Data quality warning for averages StatCan grades as use-with-caution */}
+          {result.quality && !result.quality.reliable && (
+            <div className="quality-warning">
+              <p className="warning-title">Low data quality (grade {result.quality.grade})</p>
+              <p>Statistics Canada rates this average as &quot;{result.quality.label.toLowerCase()}&quot;, usually because few units were surveyed. Treat the comparison as a rough guide.</p>
+            </div>
+          )}
+          
+          {result.survey && (
+            <p className="category-info">
+              Survey: <span>{result.survey}</span>
+            </p>
+          )}
+          
           {result.category && (
             <p className="category-info">
               Housing category: <span>{result.category}</span>
             </p>
           )}
           
+          {result.quality && (
+            <p className="category-info">
+              Data quality: <span>{result.quality.label} ({result.quality.grade})</span>
+            </p>
+          )}
+          
+          {result.vacancy && (
+            <p className="category-info">
+              Vacancy rate{result.vacancy.survey || result.vacancy.year ? ` (${result.vacancy.survey || result.vacancy.year})` : ''}: <span>{result.vacancy.rate.toFixed(1)}%</span>
+              {' '}{MARKET_DESCRIPTIONS[result.vacancy.market]}
+            </p>
+          )}
+          
           {result.adjustmentApplied && (
             <p className="adjustment-note">
-              *Estimated current value is adjusted for data age ({result.dataAgeMention}) using a 5% annual increase model.
+              *Estimated current value is adjusted for data age ({result.dataAgeMention}){result.adjustment ? ` ${describeAdjustment(result.adjustment)}` : ''}.
             </p>
           )}
           
@@ -423,7 +667,19 @@ function MainContent() {
             >
               About the Data
             </button>
+            {province === 'ON' && (
+              <button 
+                className="data-info-button"
+                onClick={() => setShowGuideline(!showGuideline)}
+              >
+                Check a Rent Increase
+              </button>
+            )}
           </div>
+          
+          {showGuideline && province === 'ON' && (
+            <GuidelineCheck key={price} proposedRent={price} />
+          )}
         </section>
       )}
 
@@ -437,10 +693,19 @@ function MainContent() {
             </div>
             <div className="modal-body">
               <ul className="category-list">
-                {HOUSING_CATEGORIES.map((cat) => (
-                  <li key={cat.name} className="category-item">
-                    <h4>{cat.name}</h4>
+                {HOUSING_CATEGORIES.filter(cat => availableCategories.length === 0 || availableCategories.includes(cat.name)).map((cat) => (
+                  <li
+                    key={cat.name}
+                    className="category-item"
+                    style={{ marginLeft: `${getCategoryDepth(cat.name) * 1.25}rem` }}
+                  >
+                    <h4>{cat.name === ALL_CATEGORY ? 'All Categories' : cat.name}</h4>
                     <p>{cat.description}</p>
+                    {cat.parent && (
+                      <p className="category-parent">
+                        Part of {cat.parent === ALL_CATEGORY ? 'All Categories' : cat.parent}
+                      </p>
+                    )}
                   </li>
                 ))}
               </ul>
@@ -472,8 +737,8 @@ function MainContent() {
                 <div className="data-info-content">
                   <h4>Collection Method</h4>
                   <p>
-                    Surveys conducted <strong>twice yearly</strong> (April and October) 
-                    targeting rental properties with three or more units.
+                    Surveys conducted each <strong>October</strong> (in some years larger centres 
+                    were also surveyed in April) targeting rental properties with three or more units.
                   </p>
                 </div>
               </div>
@@ -482,9 +747,17 @@ function MainContent() {
                 <div className="data-info-content">
                   <h4>Data Age & Adjustments</h4>
                   <p>
-                    For data older than 6 months, we apply an <strong>estimated 5% annual increase</strong> 
-                    to better reflect current market conditions.
+                    Data age is counted from the month of the survey. For data older than 6 months, 
+                    we carry the average forward with the <strong>Statistics Canada rent index</strong> (the 
+                    Consumer Price Index for rented accommodation in your province), from the survey month 
+                    to the latest month published. When the index is not available, we compound a fallback 
+                    annual increase monthly instead.
                   </p>
+                  {result?.adjustment && (
+                    <p>
+                      This comparison was adjusted {describeAdjustment(result.adjustment)}.
+                    </p>
+                  )}
                 </div>
               </div>
               
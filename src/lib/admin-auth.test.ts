@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { authorizeAdminRequest, readJsonBody } from './admin-auth';
+
+const request = (init: { authorization?: string, body?: string } = {}) =>
+  new NextRequest('http://localhost/api/admin/refresh', {
+    method: 'POST',
+    headers: init.authorization ? { authorization: init.authorization } : {},
+    body: init.body
+  });
+
+describe('authorizeAdminRequest', () => {
+  beforeEach(() => {
+    vi.stubEnv('ADMIN_API_TOKEN', 's3cret-token');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('lets a request with the token through', () => {
+    expect(authorizeAdminRequest(request({ authorization: 'Bearer s3cret-token' }))).toBeNull();
+    expect(authorizeAdminRequest(request({ authorization: 'bearer  s3cret-token ' }))).toBeNull();
+  });
+
+  it('rejects a missing or wrong token', async () => {
+    for (const authorization of [undefined, 'Bearer wrong', 'Basic s3cret-token', 'Bearer s3cret-token-longer']) {
+      const response = authorizeAdminRequest(request({ authorization }));
+
+      expect(response?.status).toBe(401);
+      expect(response?.headers.get('WWW-Authenticate')).toBe('Bearer');
+      expect(await response?.json()).toEqual({ error: 'Missing or invalid admin token' });
+    }
+  });
+
+  it('disables the admin API without a configured token', () => {
+    vi.stubEnv('ADMIN_API_TOKEN', '');
+
+    expect(authorizeAdminRequest(request({ authorization: 'Bearer ' }))?.status).toBe(503);
+  });
+});
+
+describe('readJsonBody', () => {
+  it('reads a JSON object and treats an empty body as {}', async () => {
+    expect(await readJsonBody(request({ body: '{"dryRun":true}' }))).toEqual({ dryRun: true });
+    expect(await readJsonBody(request())).toEqual({});
+    expect(await readJsonBody(request({ body: '  ' }))).toEqual({});
+  });
+
+  it('rejects bodies that are not a JSON object', async () => {
+    await expect(readJsonBody(request({ body: '[1]' }))).rejects.toThrow('Request body must be a JSON object');
+    await expect(readJsonBody(request({ body: '{' }))).rejects.toThrow(SyntaxError);
+  });
+});
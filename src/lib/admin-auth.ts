@@ -0,0 +1,49 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Token check for the /api/admin routes.
+ * Requests must send "Authorization: Bearer <ADMIN_API_TOKEN>"; without the
+ * environment variable the admin API is disabled.
+ */
+
+const hashToken = (token: string): Buffer => createHash('sha256').update(token).digest();
+
+/**
+ * Returns an error response for a request without a valid admin token, or null when it may proceed
+ */
+export const authorizeAdminRequest = (request: NextRequest): NextResponse | null => {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    return NextResponse.json(
+      { error: 'Admin API is disabled. Set ADMIN_API_TOKEN to enable it' },
+      { status: 503 }
+    );
+  }
+
+  const match = (request.headers.get('authorization') || '').match(/^Bearer\s+(.+)$/i);
+
+  // Compare fixed-length hashes so the check takes the same time whatever the token
+  if (!match || !timingSafeEqual(hashToken(match[1].trim()), hashToken(expected))) {
+    return NextResponse.json(
+      { error: 'Missing or invalid admin token' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+
+  return null;
+};
+
+/**
+ * Reads a JSON request body, treating an empty body as {}
+ */
+export const readJsonBody = async (request: NextRequest): Promise<Record<string, unknown>> => {
+  const text = await request.text();
+  if (!text.trim()) return {};
+
+  const body = JSON.parse(text);
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new SyntaxError('Request body must be a JSON object');
+  }
+  return body;
+};
@@ -3,6 +3,7 @@ import fs from 'fs';
 // import fetch from 'node-fetch';
 import JSZip from 'jszip';
 import Papa from 'papaparse';
+import { getWdsBaseUrl } from './config';
 
 /**
  * This script directly analyzes the CMHC API response structure
@@ -15,7 +16,7 @@ const analyzeDirectResponse = async () => {
     // Step 1: Access the Statistics Canada API directly
     console.log('Step 1: Fetching from Statistics Canada WDS API...');
     const tableId = "34100133";
-    const wdsEndpoint = `https://www150.statcan.gc.ca/t1/wds/rest/getFullTableDownloadCSV/${tableId}/en`;
+    const wdsEndpoint = `${getWdsBaseUrl()}/getFullTableDownloadCSV/${tableId}/en`;
     
     console.log(`Calling endpoint: ${wdsEndpoint}`);
     const startTime = Date.now();
@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { performance } from 'perf_hooks';
+import type { RentalRecord } from './cmhc';
+import { parseDataFile } from './cmhc-schema';
+import { buildDataIndex, lookupRents } from './data-index';
+import type { Dataset } from './data-store';
+import { findGeography, findProvince, resolveGeography, DEFAULT_PROVINCE } from './geography';
+
+/**
+ * Micro-benchmark of rent lookups: the indexed lookups used by getAverage
+ * against the linear scans they replaced, on the published data file copied
+ * across many survey years to stand in for a much larger multi-year dataset.
+ *
+ *   npm run bench:lookups -- [years]   (default 20 copies; data file from CMHC_DATA_DIR or public/data)
+ */
+
+const province = findProvince(DEFAULT_PROVINCE)!;
+
+/**
+ * The previous getAverage lookup: filter the year, resolve the city by scanning
+ * the geography table, filter the records, then retry without the category
+ */
+const linearLookup = (dataset: Dataset, latestYear: number, city: string, beds: string, category?: string): RentalRecord[] => {
+  const yearData = dataset.data.filter(item => item.Year === latestYear);
+  const geography = findGeography(dataset.geographies, city, province);
+  if (!geography) return [];
+
+  const records = yearData.filter(item =>
+    item.DGUID === geography.dguid &&
+    item.Bedrooms === beds &&
+    (!category || item.Category === category)
+  );
+
+  return records.length === 0 && category ? linearLookup(dataset, latestYear, city, beds) : records;
+};
+
+/**
+ * Copies every record into earlier survey years so the dataset is `copies` times larger
+ */
+const expandYears = (dataset: Dataset, copies: number): Dataset => {
+  const latestYear = Math.max(...dataset.data.map(record => record.Year ?? 0));
+  const data: RentalRecord[] = [];
+
+  for (let copy = 0; copy < copies; copy++) {
+    for (const record of dataset.data) {
+      data.push({ ...record, Year: latestYear - copy, VALUE: Math.round(record.VALUE * Math.pow(0.97, copy)) });
+    }
+  }
+
+  return { ...dataset, data };
+};
+
+/**
+ * Times a function over every query, repeated until at least minMs has passed; returns microseconds per lookup
+ */
+const time = (queries: unknown[], run: (query: any) => unknown, minMs = 500): number => {
+  let lookups = 0;
+  const start = performance.now();
+  do {
+    for (const query of queries) run(query);
+    lookups += queries.length;
+  } while (performance.now() - start < minMs);
+
+  return ((performance.now() - start) * 1000) / lookups;
+};
+
+const runBenchmark = () => {
+  const copies = parseInt(process.argv[2] || '20', 10);
+  const dataDir = process.env.CMHC_DATA_DIR || path.join(process.cwd(), 'public', 'data');
+  const file = parseDataFile(fs.readFileSync(path.join(dataDir, 'cmhc-data.json'), 'utf-8'));
+
+  const dataset = expandYears({
+    version: 'benchmark',
+    snapshot: null,
+    metadata: file.metadata,
+    data: file.data,
+    geographies: file.geographies,
+    vacancy: file.vacancy,
+    cpi: file.cpi
+  }, copies);
+  const latestYear = Math.max(...dataset.data.map(record => record.Year ?? 0));
+
+  // Every city, bedroom count and category in the province, plus a category that never matches
+  const cities = dataset.geographies.filter(g => g.provinces.length === 1 && g.provinces[0] === province.name).map(g => g.name);
+  const beds = Array.from(new Set(dataset.data.map(record => record.Bedrooms)));
+  const categories = [undefined, ...Array.from(new Set(dataset.data.map(record => record.Category))), 'Missing'];
+  const queries = cities.flatMap(city => beds.flatMap(bed => categories.map(category => ({ city, beds: bed, category }))));
+
+  const buildStart = performance.now();
+  const index = buildDataIndex(dataset);
+  const buildMs = performance.now() - buildStart;
+
+  const indexedLookup = (query: { city: string, beds: string, category?: string }): RentalRecord[] => {
+    const geography = resolveGeography(index.geographies, query.city, province);
+    if (!geography) return [];
+
+    const records = lookupRents(index, geography.dguid, query.beds, latestYear, query.category);
+    return records.length === 0 && query.category ? lookupRents(index, geography.dguid, query.beds, latestYear) : records;
+  };
+
+  // Both lookups must find the same records before their speed means anything
+  const mismatches = queries.filter(query => {
+    const expected = linearLookup(dataset, latestYear, query.city, query.beds, query.category);
+    const actual = indexedLookup(query);
+    return expected.length !== actual.length || expected.some((record, i) => record !== actual[i]);
+  });
+  if (mismatches.length > 0) {
+    console.error(`❌ Indexed lookups differ from linear scans for ${mismatches.length} queries, e.g.`, mismatches[0]);
+    return false;
+  }
+
+  const linearUs = time(queries, query => linearLookup(dataset, latestYear, query.city, query.beds, query.category));
+  const indexedUs = time(queries, indexedLookup);
+
+  console.log(`Dataset: ${dataset.data.length} records (${copies} survey years), ${queries.length} distinct queries`);
+  console.log(`Index build: ${buildMs.toFixed(1)} ms (once per data version)`);
+  console.log(`Linear scan: ${linearUs.toFixed(1)} µs per lookup`);
+  console.log(`Indexed:     ${indexedUs.toFixed(2)} µs per lookup`);
+  console.log(`✅ Indexed lookups are ${(linearUs / indexedUs).toFixed(0)}x faster`);
+  return true;
+};
+
+try {
+  process.exit(runBenchmark() ? 0 : 1);
+} catch (err) {
+  console.error('Benchmark failed:', err);
+  process.exit(1);
+}
+
+export {};
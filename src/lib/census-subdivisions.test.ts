@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { CENSUS_SUBDIVISIONS } from './census-subdivisions';
+import { normalizePlaceName } from './geography';
+
+describe('CENSUS_SUBDIVISIONS', () => {
+  it('lists each municipality of a province once', () => {
+    const keys = CENSUS_SUBDIVISIONS.map(subdivision => `${subdivision.province}|${normalizePlaceName(subdivision.name)}`);
+
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('reports the core municipality of a market in that market', () => {
+    const marketOf = (name: string) => CENSUS_SUBDIVISIONS.find(subdivision => subdivision.name === name)?.market;
+
+    expect(marketOf('Toronto')).toBe('Toronto');
+    expect(marketOf('Mississauga')).toBe('Toronto');
+    expect(marketOf('Burlington')).toBe('Hamilton');
+    expect(marketOf('Quinte West')).toBe('Belleville - Quinte West');
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Census subdivisions (municipalities) and the CMHC rental market (CMA or CA)
+ * that reports them. CMHC publishes rents for metropolitan areas, not for each
+ * municipality inside one, so a tenant in Mississauga is compared against the
+ * Toronto market. Municipalities whose market is not in the loaded data are ignored.
+ *
+ * The table is partial: it is curated by hand and lists the larger municipalities
+ * of the Ontario census metropolitan areas, not every census subdivision of every
+ * CMA and census agglomeration. A complete table would be generated from the
+ * Statistics Canada CSD to CMA/CA concordance; until then a smaller town inside a
+ * market resolves only through an alias or fuzzy match, or not at all.
+ */
+
+export interface CensusSubdivision {
+  // Municipality name as Statistics Canada publishes it, e.g. "Mississauga"
+  name: string;
+  // Province code of the municipality
+  province: string;
+  // CMHC area name of the market containing it, e.g. "Toronto"
+  market: string;
+}
+
+// Added to "not found" errors, since a missing town is more likely a gap in the table than a typo
+export const MUNICIPALITY_COVERAGE_NOTE =
+  'Municipalities are recognized from a partial list (so far the larger municipalities of Ontario\'s metropolitan areas); ' +
+  'if your town is not found, choose the rental market it belongs to from the city list.';
+
+const subdivisions = (province: string, market: string, names: string[]): CensusSubdivision[] =>
+  names.map(name => ({ name, province, market }));
+
+export const CENSUS_SUBDIVISIONS: CensusSubdivision[] = [
+  // Ontario census metropolitan areas
+  ...subdivisions('ON', 'Toronto', [
+    'Toronto', 'Mississauga', 'Brampton', 'Markham', 'Vaughan', 'Richmond Hill', 'Oakville',
+    'Ajax', 'Pickering', 'Milton', 'Newmarket', 'Halton Hills', 'Caledon', 'Aurora',
+    'Whitchurch-Stouffville', 'Georgina', 'East Gwillimbury', 'King', 'Uxbridge',
+    'Bradford West Gwillimbury', 'New Tecumseth'
+  ]),
+  ...subdivisions('ON', 'Hamilton', ['Hamilton', 'Burlington', 'Grimsby']),
+  ...subdivisions('ON', 'Oshawa', ['Oshawa', 'Whitby', 'Clarington']),
+  ...subdivisions('ON', 'Ottawa-Gatineau', ['Ottawa', 'Clarence-Rockland', 'Russell']),
+  ...subdivisions('ON', 'Kitchener-Cambridge-Waterloo', ['Kitchener', 'Cambridge', 'Waterloo', 'Woolwich', 'Wilmot', 'North Dumfries']),
+  ...subdivisions('ON', 'St. Catharines-Niagara', [
+    'St. Catharines', 'Niagara Falls', 'Welland', 'Fort Erie', 'Thorold', 'Port Colborne',
+    'Lincoln', 'Niagara-on-the-Lake', 'Pelham', 'Wainfleet'
+  ]),
+  ...subdivisions('ON', 'London', ['London', 'Middlesex Centre', 'Thames Centre', 'Central Elgin', 'Southwold']),
+  ...subdivisions('ON', 'Windsor', ['Windsor', 'Lakeshore', 'LaSalle', 'Tecumseh', 'Amherstburg']),
+  ...subdivisions('ON', 'Guelph', ['Guelph', 'Guelph/Eramosa', 'Puslinch']),
+  ...subdivisions('ON', 'Barrie', ['Barrie', 'Innisfil', 'Springwater']),
+  ...subdivisions('ON', 'Kingston', ['Kingston', 'Loyalist', 'South Frontenac']),
+  ...subdivisions('ON', 'Greater Sudbury', ['Greater Sudbury']),
+  ...subdivisions('ON', 'Thunder Bay', ['Thunder Bay', 'Oliver Paipoonge', 'Shuniah', 'Neebing']),
+  ...subdivisions('ON', 'Peterborough', ['Peterborough', 'Selwyn', 'Cavan Monaghan', 'Otonabee-South Monaghan']),
+  ...subdivisions('ON', 'Brantford', ['Brantford', 'Brant']),
+  ...subdivisions('ON', 'Belleville - Quinte West', ['Belleville', 'Quinte West'])
+];
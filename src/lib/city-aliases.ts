@@ -0,0 +1,50 @@
+/**
+ * Curated aliases: nicknames, neighbourhoods and municipalities people search
+ * for, mapped to the CMHC area (CMA or CA) whose survey covers them. Aliases
+ * whose area is not in the loaded data are ignored, so the table can list
+ * areas from every province.
+ */
+
+export interface CityAlias {
+  // Name as users type it, e.g. "Kanata"
+  alias: string;
+  // CMHC area name, e.g. "Ottawa-Gatineau"
+  area: string;
+  // Province code of the municipality (and so of the area part it resolves to)
+  province: string;
+}
+
+const aliases = (province: string, area: string, names: string[]): CityAlias[] =>
+  names.map(alias => ({ alias, area, province }));
+
+export const CITY_ALIASES: CityAlias[] = [
+  // Ontario (municipalities are in CENSUS_SUBDIVISIONS; these are nicknames and former municipalities)
+  ...aliases('ON', 'Kitchener-Cambridge-Waterloo', ['KW', 'Tri-Cities']),
+  ...aliases('ON', 'Greater Sudbury', ['Sudbury', 'Grand Sudbury']),
+  ...aliases('ON', 'St. Catharines-Niagara', ['Niagara']),
+  ...aliases('ON', 'Ottawa-Gatineau', ['Kanata', 'Nepean', 'Orleans', 'Barrhaven']),
+  ...aliases('ON', 'Toronto', ['Scarborough', 'Etobicoke', 'North York', 'GTA']),
+  ...aliases('ON', 'Hamilton', ['Stoney Creek', 'Ancaster', 'Dundas']),
+  ...aliases('ON', 'Oshawa', ['Courtice', 'Bowmanville']),
+  ...aliases('ON', 'Sault Ste. Marie', ['Sault', 'The Soo']),
+  ...aliases('ON', 'Chatham-Kent', ['Chatham']),
+
+  // Quebec
+  ...aliases('QC', 'Ottawa-Gatineau', ['Gatineau', 'Hull', 'Aylmer']),
+  ...aliases('QC', 'Montréal', ['Laval', 'Longueuil', 'Brossard', 'Terrebonne']),
+  ...aliases('QC', 'Québec', ['Quebec City', 'Lévis', 'Levis']),
+
+  // British Columbia
+  ...aliases('BC', 'Vancouver', ['Burnaby', 'Surrey', 'Richmond', 'Coquitlam', 'North Vancouver', 'New Westminster', 'Langley', 'Delta']),
+  ...aliases('BC', 'Victoria', ['Saanich', 'Langford', 'Esquimalt', 'Oak Bay']),
+  ...aliases('BC', 'Abbotsford-Mission', ['Abbotsford', 'Mission']),
+
+  // Prairies
+  ...aliases('AB', 'Edmonton', ['St. Albert', 'Sherwood Park', 'Strathcona County', 'Spruce Grove']),
+  ...aliases('AB', 'Calgary', ['Airdrie', 'Cochrane', 'Chestermere']),
+  ...aliases('MB', 'Winnipeg', ['St. Boniface']),
+
+  // Atlantic
+  ...aliases('NS', 'Halifax', ['Dartmouth', 'Bedford']),
+  ...aliases('NB', 'Moncton', ['Dieppe', 'Riverview'])
+];
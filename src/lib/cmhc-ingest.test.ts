@@ -0,0 +1,293 @@
+import { strToU8, zipSync } from 'fflate';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createCsvRowStream,
+  createZipCsvStream,
+  filterGeographyRows,
+  getCubeReleaseTime,
+  isGeographyRow,
+  isPublishableRow,
+  identifyFieldNames,
+  ingestCsv,
+  mapRow,
+  mapStructureTypeToCategory,
+  normalizeBedrooms,
+  normalizeCpiRow,
+  normalizeRow,
+  parseCsv,
+  parseRefDate,
+  selectYears,
+  ChunkSink,
+  MappedRow
+} from './cmhc-ingest';
+
+const HEADER = '"REF_DATE","GEO","DGUID","Type of structure","Type of unit","VALUE","STATUS"';
+
+const CSV = [
+  HEADER,
+  '"2023","Toronto, Ontario","2021S0503535","Row and apartment structures of three units and over","One bedroom units","1,580","A"',
+  '"2024","Toronto, Ontario","2021S0503535","Row and apartment structures of three units and over","One bedroom units","1,650","A"',
+  '"2024","Toronto, Ontario","2021S0503535","Apartment structures of six units and over","Two bedroom units","2,010","B"',
+  '"2024","Toronto, Ontario","2021S0503535","Row structures of three units and over","Two bedroom units","1,870","F"',
+  '"2024","Vancouver, British Columbia","2021S0503933","Row and apartment structures of three units and over","One bedroom units","1,900","A"',
+  '"2024","Ottawa-Gatineau, Ontario part, Ontario/Quebec","2021S050435505","Row and apartment structures of three units and over","Bachelor units","","F"'
+].join('\n');
+
+const row = (overrides: Partial<MappedRow> = {}): MappedRow => ({
+  GEO: 'Toronto, Ontario',
+  DGUID: '2021S0503535',
+  Bedrooms: 'One bedroom units',
+  VALUE: '1,650',
+  RefDate: '2024',
+  StructureType: 'Row and apartment structures of three units and over',
+  STATUS: 'A',
+  ...overrides
+});
+
+// Feeds text to a sink in chunks of the given size
+const pushInChunks = <T>(sink: ChunkSink<T>, chunks: T[]) => {
+  chunks.forEach(chunk => sink.push(chunk));
+  sink.end();
+};
+
+const splitText = (text: string, size: number): string[] =>
+  Array.from({ length: Math.ceil(text.length / size) }, (_, i) => text.slice(i * size, (i + 1) * size));
+
+describe('getCubeReleaseTime', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('reads the release time of the table', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(JSON.stringify([
+      { status: 'SUCCESS', object: { releaseTime: '2025-01-27T08:30' } }
+    ]))));
+
+    expect(await getCubeReleaseTime()).toBe('2025-01-27T08:30');
+  });
+
+  it('clears its timeout when the request fails', async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+
+    await expect(getCubeReleaseTime()).rejects.toThrow('fetch failed');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
+
+describe('createZipCsvStream', () => {
+  const archive = (files: Record<string, string>): Uint8Array =>
+    zipSync(Object.fromEntries(Object.entries(files).map(([name, text]) => [name, strToU8(text)])));
+
+  it('streams the data CSV and skips the metadata file', () => {
+    const zip = archive({ '34100133_MetaData.csv': 'metadata', '34100133.csv': CSV });
+    let text = '';
+
+    pushInChunks(createZipCsvStream(chunk => { text += chunk; }), [zip.slice(0, 100), zip.slice(100)]);
+
+    expect(text).toBe(CSV);
+  });
+
+  it('rejects an archive without a CSV', () => {
+    const zip = archive({ 'readme.txt': 'nothing here' });
+
+    expect(() => pushInChunks(createZipCsvStream(() => {}), [zip])).toThrow('No CSV file found in the ZIP archive');
+  });
+
+  it('rejects a truncated archive', () => {
+    const zip = archive({ '34100133.csv': CSV.repeat(20) });
+
+    expect(() => pushInChunks(createZipCsvStream(() => {}), [zip.slice(0, zip.length / 2)])).toThrow();
+  });
+});
+
+describe('createCsvRowStream', () => {
+  it('gives the same rows whatever the chunk boundaries', () => {
+    for (const size of [1, 7, 64, CSV.length]) {
+      const rows: Record<string, string>[] = [];
+      pushInChunks(createCsvRowStream(row => rows.push(row)), splitText(CSV, size));
+
+      expect(rows).toEqual(parseCsv(CSV));
+    }
+  });
+
+  it('strips a byte order mark from the header', () => {
+    const rows: Record<string, string>[] = [];
+    pushInChunks(createCsvRowStream(row => rows.push(row)), [`\uFEFF${CSV}`]);
+
+    expect(rows[0].REF_DATE).toBe('2023');
+  });
+
+  it('rejects a CSV cut off mid-row', () => {
+    const cut = CSV.slice(0, CSV.indexOf('2,010'));
+
+    expect(() => pushInChunks(createCsvRowStream(() => {}), [cut])).toThrow('CSV appears to be truncated');
+  });
+
+  it('rejects a CSV with no rows', () => {
+    expect(() => pushInChunks(createCsvRowStream(() => {}), [HEADER])).toThrow('No data found in the CSV');
+  });
+});
+
+describe('parseCsv', () => {
+  it('keys rows by header and keeps quoted commas', () => {
+    const rows = parseCsv(CSV);
+
+    expect(rows).toHaveLength(6);
+    expect(rows[0].REF_DATE).toBe('2023');
+    expect(rows[0].GEO).toBe('Toronto, Ontario');
+    expect(rows[0].VALUE).toBe('1,580');
+  });
+});
+
+describe('identifyFieldNames', () => {
+  it('finds the table columns', () => {
+    const [record] = parseCsv(CSV);
+
+    expect(identifyFieldNames(record)).toEqual({
+      GEO: 'GEO',
+      DGUID: 'DGUID',
+      Bedrooms: 'Type of unit',
+      VALUE: 'VALUE',
+      RefDate: 'REF_DATE',
+      StructureType: 'Type of structure',
+      STATUS: 'STATUS'
+    });
+  });
+});
+
+describe('mapRow', () => {
+  it('maps a row onto the fields found', () => {
+    const [record] = parseCsv(CSV);
+
+    expect(mapRow(record, identifyFieldNames(record))).toEqual({
+      GEO: 'Toronto, Ontario',
+      DGUID: '2021S0503535',
+      Bedrooms: 'One bedroom units',
+      VALUE: '1,580',
+      RefDate: '2023',
+      StructureType: 'Row and apartment structures of three units and over',
+      STATUS: 'A'
+    });
+  });
+});
+
+describe('filterGeographyRows', () => {
+  it('keeps rows of every province that name an area and carry a value', () => {
+    const vancouver = row({ GEO: 'Vancouver, British Columbia', DGUID: '2021S0503933' });
+    const rows = [row(), vancouver, row({ VALUE: '' }), row({ GEO: '' })];
+
+    expect(filterGeographyRows(rows)).toEqual([row(), vancouver]);
+    expect(isGeographyRow(vancouver)).toBe(true);
+  });
+});
+
+describe('isPublishableRow', () => {
+  it('drops cells graded F and the no-value symbols', () => {
+    expect(isPublishableRow(row({ STATUS: 'D' }))).toBe(true);
+    expect(isPublishableRow(row({ STATUS: '' }))).toBe(true);
+    expect(isPublishableRow(row({ STATUS: 'F' }))).toBe(false);
+    expect(isPublishableRow(row({ STATUS: '..' }))).toBe(false);
+    expect(isPublishableRow(row({ STATUS: 'x' }))).toBe(false);
+  });
+});
+
+describe('normalizeBedrooms', () => {
+  it('maps the unit types to bedroom counts', () => {
+    expect(normalizeBedrooms('Bachelor units')).toBe('0');
+    expect(normalizeBedrooms('One bedroom units')).toBe('1');
+    expect(normalizeBedrooms('Two bedroom units')).toBe('2');
+    expect(normalizeBedrooms('Three bedroom units')).toBe('3+');
+    expect(normalizeBedrooms('4 bedroom')).toBe('3+');
+  });
+});
+
+describe('mapStructureTypeToCategory', () => {
+  it('maps structure types to categories', () => {
+    expect(mapStructureTypeToCategory('Row structures of three units and over')).toBe('Townhouse');
+    expect(mapStructureTypeToCategory('Apartment structures of six units and over')).toBe('Apartment (6+ units)');
+    expect(mapStructureTypeToCategory(undefined)).toBe('');
+  });
+});
+
+describe('parseRefDate', () => {
+  it('reads the survey year from the reference period', () => {
+    expect(parseRefDate('2024').year).toBe(2024);
+    expect(parseRefDate('2023-10-01').year).toBe(2023);
+    expect(parseRefDate('Reference period: 2022').year).toBe(2022);
+    expect(parseRefDate('')).toEqual({});
+  });
+});
+
+describe('normalizeRow', () => {
+  it('normalizes bedrooms, value and category and derives the year', () => {
+    expect(normalizeRow(row())).toMatchObject({
+      GEO: 'Toronto, Ontario',
+      DGUID: '2021S0503535',
+      Bedrooms: '1',
+      VALUE: 1650,
+      RefDate: '2024-10-01',
+      Year: 2024,
+      Category: 'All',
+      Status: 'A'
+    });
+  });
+});
+
+describe('normalizeCpiRow', () => {
+  const cpi = (product: string, geo: string) => {
+    const record = { REF_DATE: '2024-10', GEO: geo, 'Products and product groups': product, VALUE: '171.2' };
+    return normalizeCpiRow(mapRow(record, identifyFieldNames(record)), record);
+  };
+
+  it('keeps rented accommodation for provinces and Canada', () => {
+    expect(cpi('Rented accommodation', 'Ontario')).toEqual({ GEO: 'Ontario', RefDate: '2024-10-01', VALUE: 171.2 });
+    expect(cpi('Rented accommodation', 'Canada')?.GEO).toBe('Canada');
+  });
+
+  it('drops other products and areas', () => {
+    expect(cpi('Shelter', 'Ontario')).toBeNull();
+    expect(cpi('Rented accommodation', 'Toronto, Ontario')).toBeNull();
+  });
+});
+
+describe('selectYears', () => {
+  it('keeps the requested years, or all when none are given', () => {
+    const records = [normalizeRow(row({ RefDate: '2023' })), normalizeRow(row())];
+
+    expect(selectYears(records, [2024]).map(record => record.Year)).toEqual([2024]);
+    expect(selectYears(records)).toHaveLength(2);
+  });
+});
+
+describe('ingestCsv', () => {
+  it('runs the stages and keeps every publishable survey year by default', () => {
+    const records = ingestCsv(CSV);
+
+    expect(records.map(record => [record.GEO, record.Year, record.Bedrooms])).toEqual([
+      ['Toronto, Ontario', 2023, '1'],
+      ['Toronto, Ontario', 2024, '1'],
+      ['Toronto, Ontario', 2024, '2'],
+      ['Vancouver, British Columbia', 2024, '1']
+    ]);
+  });
+
+  it('drops suppressed cells published as a rent of 0', () => {
+    const suppressed = '"2024","Kingston, Ontario","2021S0503521","Row and apartment structures of three units and over","One bedroom units","0","A"';
+
+    expect(ingestCsv(`${CSV}\n${suppressed}`).some(record => record.GEO === 'Kingston, Ontario')).toBe(false);
+  });
+
+  it('selects the requested survey years', () => {
+    expect(ingestCsv(CSV, { years: [2023] })).toHaveLength(1);
+  });
+
+  it('reports the rows parsed and kept through onProgress', () => {
+    const onProgress = vi.fn();
+
+    ingestCsv(CSV, { onProgress });
+
+    expect(onProgress).toHaveBeenCalledWith({ bytesDownloaded: CSV.length, totalBytes: CSV.length, rowsParsed: 6, rowsKept: 4 });
+  });
+});
@@ -0,0 +1,788 @@
+import Papa from 'papaparse';
+import { Unzip, UnzipInflate } from 'fflate';
+import type { CpiRecord, RentalRecord, VacancyRecord } from './cmhc';
+import { getWdsBaseUrl } from './config';
+import { parseRentValue } from './cmhc-schema';
+import { describeGeography, PROVINCES } from './geography';
+import { getExclusionReason, isQualityGrade } from './data-quality';
+import { mapStructureTypeToCategory } from './housing-categories';
+import { normalizeRefDate, parseRefDate } from './survey-periods';
+
+/**
+ * Shared ingestion pipeline for the CMHC Rental Market Survey table.
+ * Every path that turns the Statistics Canada download into RentalRecords goes
+ * through these stages: download, unzip, parse, field mapping, geography
+ * and quality filters, bedroom/category normalization and year selection.
+ * Every province is kept; lookups pick the province they need. The table
+ * download is streamed through the stages row by row.
+ */
+
+// Structure types map to categories through the hierarchy in housing-categories.ts,
+// and reference periods to survey dates through survey-periods.ts
+export { mapStructureTypeToCategory, parseRefDate };
+
+// CMHC Rental Market Survey data - Table 34-10-0133
+export const CMHC_TABLE_ID = '34100133';
+
+// CMHC Rental Market Survey vacancy rates - Table 34-10-0127
+export const CMHC_VACANCY_TABLE_ID = '34100127';
+
+// Consumer Price Index, monthly, not seasonally adjusted - Table 18-10-0004
+export const CPI_TABLE_ID = '18100004';
+
+// CPI product whose index tracks rents
+export const CPI_RENT_PRODUCT = 'Rented accommodation';
+
+// Bedrooms value for vacancy rates published for all unit types together
+export const ALL_UNIT_TYPES = 'Total';
+
+/**
+ * Raw field values pulled from a CSV row before any normalization
+ */
+export interface MappedRow {
+  GEO: string;
+  DGUID: string;
+  Bedrooms: string;
+  VALUE: string;
+  RefDate: string;
+  StructureType: string;
+  STATUS: string;
+}
+
+/**
+ * Normalizes bedroom strings to numeric values
+ */
+export const normalizeBedrooms = (bedroom: string): string => {
+  if (!bedroom) return '';
+
+  const lowerBedroom = bedroom.toLowerCase();
+
+  // Exact matches for the known CMHC dataset format
+  if (lowerBedroom === 'bachelor units') {
+    return '0';
+  } else if (lowerBedroom === 'one bedroom units') {
+    return '1';
+  } else if (lowerBedroom === 'two bedroom units') {
+    return '2';
+  } else if (lowerBedroom === 'three bedroom units') {
+    return '3+';
+  }
+
+  // Fallback to more generic patterns
+  if (lowerBedroom.includes('bachelor') || lowerBedroom.includes('studio')) {
+    return '0';
+  } else if (lowerBedroom.includes('one') || lowerBedroom.includes('1 bedroom')) {
+    return '1';
+  } else if (lowerBedroom.includes('two') || lowerBedroom.includes('2 bedroom')) {
+    return '2';
+  } else if (
+    lowerBedroom.includes('three') ||
+    lowerBedroom.includes('3 bedroom') ||
+    lowerBedroom.includes('3+') ||
+    lowerBedroom.includes('three or more')
+  ) {
+    return '3+';
+  }
+
+  // Extract numeric values
+  const numMatch = bedroom.match(/(\d+)/);
+  if (numMatch) {
+    const num = parseInt(numMatch[1]);
+    if (num >= 3) return '3+';
+    return numMatch[1];
+  }
+
+  return bedroom;
+};
+
+/**
+ * Identifies column names in data that match our expected fields
+ */
+export const identifyFieldNames = (record: Record<string, string>): Record<string, string> => {
+  const fieldMap: Record<string, string> = {
+    GEO: '',
+    DGUID: '',
+    Bedrooms: '',
+    VALUE: '',
+    RefDate: '',
+    StructureType: '',
+    STATUS: ''
+  };
+
+  for (const key of Object.keys(record)) {
+    const lowerKey = key.toLowerCase();
+
+    if (fieldMap.GEO === '' && (
+      lowerKey.includes('geo') ||
+      lowerKey.includes('location') ||
+      lowerKey.includes('city') ||
+      lowerKey.includes('geography')
+    )) {
+      fieldMap.GEO = key;
+    }
+
+    if (fieldMap.DGUID === '' && lowerKey === 'dguid') {
+      fieldMap.DGUID = key;
+    }
+
+    if (fieldMap.STATUS === '' && lowerKey === 'status') {
+      fieldMap.STATUS = key;
+    }
+
+    if (fieldMap.Bedrooms === '' && (
+      lowerKey.includes('bedroom') ||
+      lowerKey.includes('room') ||
+      lowerKey.includes('type of unit') ||
+      lowerKey.includes('unit type') ||
+      lowerKey.includes('apartment type') ||
+      lowerKey.includes('dwelling type')
+    )) {
+      fieldMap.Bedrooms = key;
+    }
+
+    if (fieldMap.VALUE === '' && (
+      lowerKey.includes('value') ||
+      lowerKey.includes('price') ||
+      lowerKey.includes('rent') ||
+      lowerKey.includes('amount') ||
+      lowerKey.includes('cost')
+    )) {
+      fieldMap.VALUE = key;
+    }
+
+    if (fieldMap.RefDate === '' && (
+      lowerKey.includes('ref') ||
+      lowerKey.includes('date') ||
+      lowerKey.includes('period') ||
+      lowerKey.includes('year') ||
+      lowerKey.includes('time')
+    )) {
+      fieldMap.RefDate = key;
+    }
+
+    if (fieldMap.StructureType === '' && (
+      lowerKey.includes('type of structure') ||
+      lowerKey.includes('structure') ||
+      lowerKey.includes('building type') ||
+      lowerKey.includes('dwelling structure')
+    )) {
+      fieldMap.StructureType = key;
+    }
+  }
+
+  // If StructureType wasn't found and there's a field literally named "Type of structure"
+  if (fieldMap.StructureType === '' && record["Type of structure"]) {
+    fieldMap.StructureType = "Type of structure";
+  }
+
+  // If we couldn't find the bedroom field, try the known CMHC column names
+  if (fieldMap.Bedrooms === '') {
+    const potentialBedroomFields = ['Type of unit', 'Dwelling type', 'Unit type'];
+
+    for (const field of potentialBedroomFields) {
+      if (record[field]) {
+        fieldMap.Bedrooms = field;
+        break;
+      }
+    }
+  }
+
+  return fieldMap;
+};
+
+/**
+ * Progress of a streaming table ingest
+ */
+export interface IngestProgress {
+  bytesDownloaded: number;
+  totalBytes?: number;
+  rowsParsed: number;
+  rowsKept: number;
+}
+
+/**
+ * Incremental consumer of a stream: push chunks as they arrive, then end
+ */
+export interface ChunkSink<T> {
+  push: (chunk: T) => void;
+  end: () => void;
+}
+
+/**
+ * Asks the WDS API for the cube metadata and returns when the table was last
+ * released (e.g. "2025-01-27T08:30"), without downloading any data
+ */
+export const getCubeReleaseTime = async (tableId: string = CMHC_TABLE_ID): Promise<string> => {
+  const wdsEndpoint = `${getWdsBaseUrl()}/getCubeMetadata`;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
+
+  let response: Response;
+  try {
+    response = await fetch(wdsEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify([{ productId: parseInt(tableId, 10) }]),
+      signal: controller.signal
+    });
+  } finally {
+    // Clear the timeout even when the request fails, so it cannot keep the process alive
+    clearTimeout(timeoutId);
+  }
+
+  if (!response.ok) {
+    throw new Error(`Statistics Canada API error: ${response.status} - ${response.statusText}`);
+  }
+
+  // The endpoint answers with one entry per requested product
+  const wdsResponse = await response.json();
+  const entry = Array.isArray(wdsResponse) ? wdsResponse[0] : wdsResponse;
+
+  if (!entry || entry.status !== "SUCCESS" || !entry.object?.releaseTime) {
+    throw new Error(`Invalid cube metadata from Statistics Canada WDS API (status: ${entry?.status || 'missing'})`);
+  }
+
+  return entry.object.releaseTime;
+};
+
+/**
+ * Stage 1: Asks the WDS API for the download URL of the full table ZIP
+ */
+export const getTableDownloadUrl = async (tableId: string = CMHC_TABLE_ID): Promise<string> => {
+  const wdsEndpoint = `${getWdsBaseUrl()}/getFullTableDownloadCSV/${tableId}/en`;
+
+  console.log(`Calling Statistics Canada WDS API: ${wdsEndpoint}`);
+  // Create an AbortController with timeout for better compatibility
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
+
+  const response = await fetch(wdsEndpoint, {
+    signal: controller.signal
+  });
+
+  // Clear the timeout
+  clearTimeout(timeoutId);
+
+  if (!response.ok) {
+    throw new Error(`Statistics Canada API error: ${response.status} - ${response.statusText}`);
+  }
+
+  const wdsResponse = await response.json();
+
+  if (!wdsResponse.status || wdsResponse.status !== "SUCCESS" || !wdsResponse.object) {
+    throw new Error(`Invalid response from Statistics Canada WDS API (status: ${wdsResponse.status || 'missing'})`);
+  }
+
+  return wdsResponse.object;
+};
+
+/**
+ * Stage 2: Unzips the table archive as bytes arrive and passes the data CSV
+ * on as text, so the archive is never held in memory
+ */
+export const createZipCsvStream = (onText: (text: string) => void): ChunkSink<Uint8Array> => {
+  const unzip = new Unzip();
+  unzip.register(UnzipInflate);
+
+  let csvFound = false;
+  let csvComplete = false;
+  let streamError: Error | null = null;
+  const decoder = new TextDecoder('utf-8');
+
+  unzip.onfile = (file) => {
+    const filename = file.name.toLowerCase();
+
+    // Only the data CSV is read; the archive also ships a *_MetaData.csv
+    if (csvFound || !filename.endsWith('.csv') || filename.includes('metadata')) return;
+    csvFound = true;
+    console.log(`Streaming ${file.name} from the ZIP`);
+
+    file.ondata = (err, data, final) => {
+      if (streamError) return;
+      try {
+        if (err) throw err;
+        const text = decoder.decode(data, { stream: !final });
+        if (text) onText(text);
+        if (final) csvComplete = true;
+      } catch (error) {
+        streamError = error instanceof Error ? error : new Error(String(error));
+      }
+    };
+    file.start();
+  };
+
+  const rethrow = () => {
+    if (streamError) throw streamError;
+  };
+
+  return {
+    push: (chunk) => {
+      unzip.push(chunk);
+      rethrow();
+    },
+    end: () => {
+      unzip.push(new Uint8Array(0), true);
+      rethrow();
+
+      if (!csvFound) {
+        throw new Error('No CSV file found in the ZIP archive');
+      }
+      if (!csvComplete) {
+        throw new Error('ZIP archive appears to be truncated');
+      }
+    }
+  };
+};
+
+/**
+ * Stage 3: Parses CSV text incrementally, emitting header-keyed rows as
+ * complete lines arrive
+ */
+export const createCsvRowStream = (onRow: (row: Record<string, string>) => void): ChunkSink<string> => {
+  let header: string[] | null = null;
+  let pending = '';
+  let inQuotes = false;
+  let rowNumber = 0;
+
+  const parseLines = (text: string) => {
+    const parsed = Papa.parse<string[]>(text, { skipEmptyLines: true });
+
+    // An unterminated quote means the download was cut off
+    const quoteError = parsed.errors.find(error => error.type === 'Quotes');
+    if (quoteError) {
+      throw new Error(`CSV appears to be truncated: ${quoteError.message} (row ${rowNumber + 1})`);
+    }
+
+    for (const fields of parsed.data) {
+      if (!header) {
+        header = fields.map((field, index) => index === 0 ? field.replace(/^\uFEFF/, '') : field);
+        continue;
+      }
+
+      rowNumber++;
+
+      // A short row means the download was cut off
+      if (fields.length !== header.length) {
+        throw new Error(
+          `CSV appears to be truncated: expected ${header.length} fields but found ${fields.length} (row ${rowNumber})`
+        );
+      }
+
+      const row: Record<string, string> = {};
+      header.forEach((key, index) => {
+        row[key] = fields[index];
+      });
+      onRow(row);
+    }
+  };
+
+  return {
+    push: (chunk) => {
+      // Find the last line break that is not inside a quoted field
+      let splitAt = -1;
+      for (let i = 0; i < chunk.length; i++) {
+        const char = chunk[i];
+        if (char === '"') {
+          inQuotes = !inQuotes;
+        } else if (char === '\n' && !inQuotes) {
+          splitAt = i;
+        }
+      }
+
+      if (splitAt === -1) {
+        pending += chunk;
+        return;
+      }
+
+      const complete = pending + chunk.slice(0, splitAt + 1);
+      pending = chunk.slice(splitAt + 1);
+      parseLines(complete);
+    },
+    end: () => {
+      if (pending.trim() !== '') {
+        parseLines(pending);
+      }
+      pending = '';
+
+      if (rowNumber === 0) {
+        throw new Error('No data found in the CSV');
+      }
+    }
+  };
+};
+
+/**
+ * Parses complete CSV text into header-keyed rows
+ */
+export const parseCsv = (csvData: string): Record<string, string>[] => {
+  const rows: Record<string, string>[] = [];
+  const csvStream = createCsvRowStream(row => rows.push(row));
+  csvStream.push(csvData);
+  csvStream.end();
+  return rows;
+};
+
+/**
+ * Finds the first field whose key or value looks relevant, used when the
+ * field map could not identify a column
+ */
+const scanRecord = (
+  record: Record<string, string>,
+  matches: (lowerKey: string, lowerValue: string) => boolean
+): string => {
+  for (const [key, value] of Object.entries(record)) {
+    if (matches(key.toLowerCase(), (value || '').toLowerCase())) {
+      return value;
+    }
+  }
+  return '';
+};
+
+/**
+ * Stage 4: Maps a CSV row onto our fields, scanning the row when a column
+ * was not identified by the field map
+ */
+export const mapRow = (record: Record<string, string>, fieldMap: Record<string, string>): MappedRow => {
+  // Extract bedroom info from available fields
+  const bedroomInfo = fieldMap.Bedrooms && record[fieldMap.Bedrooms]
+    ? record[fieldMap.Bedrooms]
+    : scanRecord(record, (lowerKey, lowerValue) =>
+        lowerKey.includes('bedroom') ||
+        lowerKey.includes('unit') ||
+        lowerValue.includes('bedroom') ||
+        lowerValue.includes('bachelor')
+      );
+
+  // Extract reference date information
+  const refDate = fieldMap.RefDate && record[fieldMap.RefDate]
+    ? record[fieldMap.RefDate]
+    : scanRecord(record, (lowerKey, lowerValue) =>
+        lowerKey.includes('date') ||
+        lowerKey.includes('period') ||
+        lowerKey.includes('year') ||
+        lowerKey.includes('ref') ||
+        lowerValue.includes('20') // Looking for year like "2023" or "2024"
+      );
+
+  // Extract structure type information
+  const structureType = fieldMap.StructureType && record[fieldMap.StructureType]
+    ? record[fieldMap.StructureType]
+    : scanRecord(record, (lowerKey) =>
+        lowerKey.includes('structure') ||
+        lowerKey.includes('building') ||
+        lowerKey.includes('type') && !lowerKey.includes('unit')
+      );
+
+  return {
+    GEO: record[fieldMap.GEO] || '',
+    DGUID: fieldMap.DGUID ? record[fieldMap.DGUID] || '' : '',
+    Bedrooms: bedroomInfo || '',
+    VALUE: record[fieldMap.VALUE] || '',
+    RefDate: refDate || '',
+    StructureType: structureType || '',
+    STATUS: fieldMap.STATUS ? (record[fieldMap.STATUS] || '').trim() : ''
+  };
+};
+
+/**
+ * Stage 5: Checks whether a row names a geography and carries a value
+ */
+export const isGeographyRow = (row: MappedRow): boolean => {
+  return !!row.GEO && !!row.VALUE;
+};
+
+/**
+ * Stage 5: Keeps only rows that name a geography and carry a value
+ */
+export const filterGeographyRows = (rows: MappedRow[]): MappedRow[] => {
+  return rows.filter(isGeographyRow);
+};
+
+/**
+ * Stage 5: Checks whether a row's STATUS allows its value to be used;
+ * cells graded F or marked ".." / "x" are dropped
+ */
+export const isPublishableRow = (row: MappedRow): boolean => {
+  return getExclusionReason(row.STATUS) === null;
+};
+
+/**
+ * Stage 6: Normalizes bedrooms, category and the reference period (to the
+ * survey date) and derives the survey year. Data age is not stored;
+ * data-age.ts works it out from RefDate when asked.
+ */
+export const normalizeRow = (row: MappedRow): RentalRecord => {
+  const { year } = parseRefDate(row.RefDate);
+
+  return {
+    GEO: row.GEO,
+    DGUID: describeGeography(row.GEO, row.DGUID || undefined).dguid,
+    Bedrooms: normalizeBedrooms(row.Bedrooms),
+    VALUE: parseRentValue(row.VALUE),
+    RefDate: normalizeRefDate(row.RefDate),
+    Year: year,
+    StructureType: row.StructureType,
+    Category: mapStructureTypeToCategory(row.StructureType),
+    Status: isQualityGrade(row.STATUS) ? row.STATUS : undefined
+  };
+};
+
+/**
+ * Stage 6: Normalizes a vacancy rate row. Tables without a unit type
+ * dimension give one rate for all bedroom counts.
+ */
+export const normalizeVacancyRow = (row: MappedRow): VacancyRecord => {
+  const { year } = parseRefDate(row.RefDate);
+  const bedrooms = normalizeBedrooms(row.Bedrooms);
+
+  return {
+    GEO: row.GEO,
+    DGUID: describeGeography(row.GEO, row.DGUID || undefined).dguid,
+    Bedrooms: bedrooms && !/total/i.test(bedrooms) ? bedrooms : ALL_UNIT_TYPES,
+    VALUE: parseRentValue(row.VALUE),
+    RefDate: normalizeRefDate(row.RefDate),
+    Year: year,
+    Status: isQualityGrade(row.STATUS) ? row.STATUS : undefined
+  };
+};
+
+// GEO labels of the CPI series we keep: the provinces and Canada as a whole
+const CPI_GEOGRAPHIES = new Set(['Canada', ...PROVINCES.map(province => province.name)]);
+
+/**
+ * Stage 6: Normalizes a CPI row, or returns null for products other than
+ * rented accommodation and for areas other than the provinces and Canada
+ */
+export const normalizeCpiRow = (row: MappedRow, record: Record<string, string>): CpiRecord | null => {
+  const productField = Object.keys(record).find(key => key.toLowerCase().includes('product'));
+  if (!productField || record[productField].trim() !== CPI_RENT_PRODUCT) return null;
+  if (!CPI_GEOGRAPHIES.has(row.GEO.trim())) return null;
+
+  return {
+    GEO: row.GEO.trim(),
+    RefDate: normalizeRefDate(row.RefDate),
+    VALUE: parseRentValue(row.VALUE)
+  };
+};
+
+/**
+ * Lists the survey years present in the records, oldest first
+ */
+export const listSurveyYears = (records: RentalRecord[]): number[] => {
+  return Array.from(new Set(records
+    .filter(r => r.Year !== undefined)
+    .map(r => r.Year as number))).sort((a, b) => a - b);
+};
+
+/**
+ * Stage 7: Selects the survey years to keep; all years when none are given
+ */
+export const selectYears = <T extends { Year?: number }>(records: T[], years?: number[]): T[] => {
+  if (!years || years.length === 0) return records;
+
+  return records.filter(r => r.Year !== undefined && years.includes(r.Year));
+};
+
+/**
+ * Checks that a normalized record has bedroom info and a numeric value
+ */
+const isValidRecord = (record: RentalRecord): boolean => {
+  // A rent of 0 marks a suppressed cell
+  return !!record.Bedrooms && !isNaN(record.VALUE) && record.VALUE > 0;
+};
+
+/**
+ * Runs the parse, mapping, filter, normalization and year selection stages on CSV text.
+ * Nothing is logged; pass onProgress to hear how many rows were parsed and kept.
+ */
+export const ingestCsv = (
+  csvData: string,
+  options: { years?: number[], onProgress?: (progress: IngestProgress) => void } = {}
+): RentalRecord[] => {
+  const rows = parseCsv(csvData);
+  const fieldMap = identifyFieldNames(rows[0]);
+
+  const records = filterGeographyRows(rows.map(row => mapRow(row, fieldMap)))
+    .filter(isPublishableRow)
+    .map(normalizeRow)
+    // Filter out records without bedroom info or a numeric value
+    .filter(isValidRecord);
+
+  if (options.onProgress) {
+    options.onProgress({
+      bytesDownloaded: csvData.length,
+      totalBytes: csvData.length,
+      rowsParsed: rows.length,
+      rowsKept: records.length
+    });
+  }
+
+  return selectYears(records, options.years);
+};
+
+/**
+ * Logs download progress roughly every 10% (or every 5 MB when the size is unknown)
+ */
+const createProgressLogger = () => {
+  let lastLogged = 0;
+
+  return (progress: IngestProgress) => {
+    const step = progress.totalBytes ? progress.totalBytes / 10 : 5 * 1024 * 1024;
+    if (progress.bytesDownloaded - lastLogged < step) return;
+    lastLogged = progress.bytesDownloaded;
+
+    const percent = progress.totalBytes
+      ? ` (${Math.round(progress.bytesDownloaded / progress.totalBytes * 100)}%)`
+      : '';
+    console.log(
+      `Ingest progress: ${(progress.bytesDownloaded / 1024 / 1024).toFixed(2)} MB${percent}, ` +
+      `${progress.rowsParsed} rows parsed, ${progress.rowsKept} kept`
+    );
+  };
+};
+
+/**
+ * Downloads a table and streams its rows through the download, unzip, parse,
+ * field mapping, geography and quality stages. onRow normalizes each surviving
+ * row (given the raw CSV row too) and reports whether it was kept.
+ */
+const streamTableRows = async (
+  tableId: string,
+  onRow: (row: MappedRow, record: Record<string, string>) => boolean,
+  onProgress: (progress: IngestProgress) => void
+): Promise<void> => {
+  const zipDownloadUrl = await getTableDownloadUrl(tableId);
+  console.log(`Downloading ZIP from ${zipDownloadUrl}`);
+
+  // Create another AbortController for ZIP download
+  const zipController = new AbortController();
+  const zipTimeoutId = setTimeout(() => zipController.abort(), 60000); // 60 second timeout
+
+  const zipResponse = await fetch(zipDownloadUrl, {
+    signal: zipController.signal
+  });
+
+  // Clear the timeout
+  clearTimeout(zipTimeoutId);
+
+  if (!zipResponse.ok || !zipResponse.body) {
+    throw new Error(`Failed to download ZIP: ${zipResponse.status} - ${zipResponse.statusText}`);
+  }
+
+  const contentLength = parseInt(zipResponse.headers.get('content-length') || '', 10);
+  const progress: IngestProgress = {
+    bytesDownloaded: 0,
+    totalBytes: isNaN(contentLength) ? undefined : contentLength,
+    rowsParsed: 0,
+    rowsKept: 0
+  };
+
+  let fieldMap: Record<string, string> | null = null;
+  let unreliableRows = 0;
+
+  const csvStream = createCsvRowStream(row => {
+    progress.rowsParsed++;
+
+    if (!fieldMap) {
+      fieldMap = identifyFieldNames(row);
+      console.log('Field mapping:', fieldMap);
+    }
+
+    const mapped = mapRow(row, fieldMap);
+    if (!isGeographyRow(mapped)) return;
+    if (!isPublishableRow(mapped)) {
+      unreliableRows++;
+      return;
+    }
+
+    if (onRow(mapped, row)) {
+      progress.rowsKept++;
+    }
+  });
+  const zipStream = createZipCsvStream(text => csvStream.push(text));
+
+  const reader = zipResponse.body.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      progress.bytesDownloaded += value.length;
+      zipStream.push(value);
+      onProgress(progress);
+    }
+
+    zipStream.end();
+    csvStream.end();
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  }
+
+  onProgress(progress);
+  console.log(`Processed ${progress.rowsKept} valid records from ${progress.rowsParsed} rows`);
+  if (unreliableRows > 0) {
+    console.log(`Excluded ${unreliableRows} rows graded too unreliable or suppressed`);
+  }
+};
+
+/**
+ * Downloads the CMHC table and streams it through the ingestion pipeline.
+ * Rows are filtered as they are parsed, so memory is bounded by the records
+ * kept rather than by the size of the downloaded file.
+ */
+export const ingestTable = async (
+  tableId: string = CMHC_TABLE_ID,
+  options: { years?: number[], onProgress?: (progress: IngestProgress) => void } = {}
+): Promise<RentalRecord[]> => {
+  const records: RentalRecord[] = [];
+
+  await streamTableRows(tableId, row => {
+    const record = normalizeRow(row);
+    if (!isValidRecord(record)) return false;
+    records.push(record);
+    return true;
+  }, options.onProgress || createProgressLogger());
+
+  return selectYears(records, options.years);
+};
+
+/**
+ * Downloads the CMHC vacancy rate table through the same pipeline as the rents
+ */
+export const ingestVacancyTable = async (
+  tableId: string = CMHC_VACANCY_TABLE_ID,
+  options: { years?: number[], onProgress?: (progress: IngestProgress) => void } = {}
+): Promise<VacancyRecord[]> => {
+  const records: VacancyRecord[] = [];
+
+  await streamTableRows(tableId, row => {
+    const record = normalizeVacancyRow(row);
+    if (isNaN(record.VALUE)) return false;
+    records.push(record);
+    return true;
+  }, options.onProgress || createProgressLogger());
+
+  return selectYears(records, options.years);
+};
+
+/**
+ * Downloads the CPI table and keeps the monthly rented accommodation index of
+ * each province and of Canada, used to carry survey rents forward to today
+ */
+export const ingestCpiTable = async (
+  tableId: string = CPI_TABLE_ID,
+  options: { onProgress?: (progress: IngestProgress) => void } = {}
+): Promise<CpiRecord[]> => {
+  const records: CpiRecord[] = [];
+
+  await streamTableRows(tableId, (row, record) => {
+    const cpi = normalizeCpiRow(row, record);
+    if (!cpi || isNaN(cpi.VALUE) || !/^\d{4}-\d{2}-01$/.test(cpi.RefDate)) return false;
+    records.push(cpi);
+    return true;
+  }, options.onProgress || createProgressLogger());
+
+  return records;
+};
@@ -0,0 +1,205 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  buildMetadata,
+  CURRENT_SCHEMA_VERSION,
+  DataSchemaError,
+  loadDataFile,
+  migrateDataFile,
+  parseDataFile,
+  parseRentValue
+} from './cmhc-schema';
+
+// An unversioned (v1) file as the old fetch script wrote it, with rents stored as text
+const legacyFile = () => ({
+  metadata: { generatedAt: '2025-07-03T15:04:44.790Z', recordCount: 2, dataYear: 2024 },
+  data: [
+    { GEO: 'Toronto, Ontario', Bedrooms: '1', VALUE: '1,650', RefDate: '2024', Year: 2024, StructureType: 'Row and apartment structures of three units and over', Category: 'Multi-Plex' },
+    { GEO: 'Toronto, Ontario', Bedrooms: '2', VALUE: '$2,010', RefDate: '2023', Year: 2023, StructureType: 'Row and apartment structures of three units and over', Category: 'Multi-Plex' }
+  ]
+});
+
+describe('parseRentValue', () => {
+  it('parses rents stored as text', () => {
+    expect(parseRentValue('1,284')).toBe(1284);
+    expect(parseRentValue('$983')).toBe(983);
+    expect(parseRentValue(1200)).toBe(1200);
+    expect(parseRentValue('')).toBeNaN();
+  });
+
+  it('does not scrape digits out of symbols', () => {
+    expect(parseRentValue('..')).toBeNaN();
+    expect(parseRentValue('x')).toBeNaN();
+    expect(parseRentValue('1,284E')).toBeNaN();
+  });
+});
+
+describe('migrateDataFile', () => {
+  it('upgrades an unversioned file to the current version', () => {
+    const file = migrateDataFile(legacyFile());
+
+    expect(file.metadata.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(file.metadata.years).toEqual([2023, 2024]);
+    expect(file.data.map((record: any) => record.VALUE)).toEqual([1650, 2010]);
+  });
+
+  it('keys areas of files without DGUIDs by their GEO label', () => {
+    const file = migrateDataFile(legacyFile());
+
+    expect(file.data[0].DGUID).toBe('legacy:Toronto, Ontario');
+    expect(file.geographies).toEqual([
+      { dguid: 'legacy:Toronto, Ontario', name: 'Toronto', geo: 'Toronto, Ontario', type: 'cma', provinces: ['Ontario'] }
+    ]);
+  });
+
+  it('names categories after the structure-type hierarchy', () => {
+    const file = migrateDataFile(legacyFile());
+
+    expect(file.data.map((record: any) => record.Category)).toEqual(['All', 'All']);
+    expect(file.metadata.uniqueCategories).toEqual(['All']);
+  });
+
+  it('drops the stored data age', () => {
+    const file = legacyFile();
+    file.data[0] = { ...file.data[0], DataAge: 7 } as any;
+
+    expect(migrateDataFile(file).data[0]).not.toHaveProperty('DataAge');
+  });
+
+  it('stores bare survey years as the October survey date', () => {
+    const file = migrateDataFile(legacyFile());
+
+    expect(file.data.map((record: any) => record.RefDate)).toEqual(['2024-10-01', '2023-10-01']);
+    expect(file.metadata.periods).toEqual(['2023-10-01', '2024-10-01']);
+  });
+
+  it('adds an empty CPI series', () => {
+    const file = migrateDataFile(legacyFile());
+
+    expect(file.cpi).toEqual([]);
+    expect(file.metadata.cpiRecordCount).toBe(0);
+  });
+
+  it('drops suppressed cells stored as a rent of 0', () => {
+    const file = legacyFile();
+    file.data[1] = { ...file.data[1], VALUE: '0' };
+
+    const migrated = migrateDataFile(file);
+
+    expect(migrated.data.map((record: any) => record.VALUE)).toEqual([1650]);
+    expect(migrated.metadata.recordCount).toBe(1);
+  });
+
+  it('leaves a current file as it is', () => {
+    const file = migrateDataFile(legacyFile());
+
+    expect(migrateDataFile(file)).toEqual(file);
+  });
+
+  it('rejects files from a newer schema', () => {
+    const file = { ...legacyFile(), metadata: { schemaVersion: CURRENT_SCHEMA_VERSION + 1 } };
+
+    expect(() => migrateDataFile(file)).toThrow(DataSchemaError);
+    expect(() => migrateDataFile(file)).toThrow('is newer than supported version');
+  });
+
+  it('rejects an invalid schema version', () => {
+    expect(() => migrateDataFile({ metadata: { schemaVersion: '2' }, data: [] })).toThrow('Invalid schemaVersion');
+    expect(() => migrateDataFile([])).toThrow('Data file must be a JSON object');
+  });
+});
+
+describe('loadDataFile', () => {
+  it('migrates and validates a legacy file', () => {
+    const file = loadDataFile(legacyFile());
+
+    expect(file.data).toHaveLength(2);
+    expect(file.metadata.recordCount).toBe(2);
+  });
+
+  it('loads the published data file', () => {
+    const contents = fs.readFileSync(path.join(__dirname, '..', '..', 'public', 'data', 'cmhc-data.json'), 'utf8');
+    const file = parseDataFile(contents);
+
+    expect(file.metadata.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(file.metadata.recordCount).toBe(file.data.length);
+    expect(file.data.every(record => typeof record.VALUE === 'number')).toBe(true);
+  });
+
+  it('accepts a file built from its own metadata', () => {
+    const { data } = loadDataFile(legacyFile());
+    const file = { ...loadDataFile(legacyFile()), metadata: buildMetadata(data) };
+
+    expect(loadDataFile(file).metadata.years).toEqual([2023, 2024]);
+  });
+
+  it('names the first invalid record', () => {
+    const file = loadDataFile(legacyFile());
+    const broken = { ...file, data: [file.data[0], { ...file.data[1], VALUE: 'n/a' }] };
+
+    expect(() => loadDataFile(broken)).toThrow('data[1]: VALUE must be a');
+  });
+
+  it('rejects a rent of 0', () => {
+    const file = loadDataFile(legacyFile());
+    const broken = { ...file, data: [file.data[0], { ...file.data[1], VALUE: 0 }] };
+
+    expect(() => loadDataFile(broken)).toThrow('data[1]: VALUE must be a positive number (got 0)');
+  });
+
+  it('accepts quality grades and rejects other statuses', () => {
+    const file = loadDataFile(legacyFile());
+    const graded = { ...file, data: [{ ...file.data[0], Status: 'D' }, file.data[1]] };
+    const broken = { ...file, data: [{ ...file.data[0], Status: 'F' }, file.data[1]] };
+
+    expect(loadDataFile(graded).data[0].Status).toBe('D');
+    expect(() => loadDataFile(broken)).toThrow('data[0]: Status must be a quality grade A to D (got "F")');
+  });
+
+  it('rejects a stored data age', () => {
+    const file = loadDataFile(legacyFile());
+    const broken = { ...file, data: [{ ...file.data[0], DataAge: 7 }, file.data[1]] };
+
+    expect(() => loadDataFile(broken)).toThrow('data[0]: DataAge is no longer stored (schema v6)');
+  });
+
+  it('rejects a CPI month that is not the first of the month', () => {
+    const file = loadDataFile(legacyFile());
+    const broken = { ...file, metadata: { ...file.metadata, cpiRecordCount: 1 }, cpi: [{ GEO: 'Ontario', RefDate: '2024-10-15', VALUE: 171.2 }] };
+
+    expect(() => loadDataFile(broken)).toThrow('cpi[0]: RefDate must be the first day of a month (got "2024-10-15")');
+  });
+
+  it('rejects a record whose area is not in the geography table', () => {
+    const file = loadDataFile(legacyFile());
+    const broken = { ...file, data: [file.data[0], { ...file.data[1], DGUID: '2021S0503555' }] };
+
+    expect(() => loadDataFile(broken)).toThrow('data[1]: DGUID 2021S0503555 is not in the geography table');
+  });
+
+  it('rejects a duplicate area', () => {
+    const file = loadDataFile(legacyFile());
+    const broken = { ...file, geographies: [...file.geographies, ...file.geographies] };
+
+    expect(() => loadDataFile(broken)).toThrow('geographies[1]: duplicate DGUID legacy:Toronto, Ontario');
+  });
+
+  it('rejects a record count that does not match the data', () => {
+    const file = loadDataFile(legacyFile());
+    const broken = { ...file, metadata: { ...file.metadata, recordCount: 5 } };
+
+    expect(() => loadDataFile(broken)).toThrow('metadata.recordCount (5) does not match the 2 records in data');
+  });
+
+  it('rejects an empty file', () => {
+    const file = loadDataFile(legacyFile());
+
+    expect(() => loadDataFile({ ...file, data: [], metadata: { ...file.metadata, recordCount: 0 } }))
+      .toThrow('Data file contains no records');
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseDataFile('{')).toThrow('Data file is not valid JSON');
+  });
+});
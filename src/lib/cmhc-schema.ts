@@ -0,0 +1,516 @@
+import type { CpiRecord, RentalRecord, VacancyRecord } from './cmhc';
+import { buildGeographyTable, legacyGeographyKey, Geography, GEOGRAPHY_TYPES } from './geography';
+import { isQualityGrade } from './data-quality';
+import { mapStructureTypeToCategory } from './housing-categories';
+import { normalizeRefDate } from './survey-periods';
+
+/**
+ * Schema for public/data/cmhc-data.json.
+ * Files declare their format in metadata.schemaVersion; older files are
+ * migrated forward on load and every file is validated before use.
+ *
+ * Versions:
+ *   1 - unversioned { metadata, data } with VALUE stored as a string
+ *   2 - schemaVersion in metadata, numeric VALUE, list of survey years
+ *   3 - geography table keyed by DGUID; every record carries the DGUID of its area
+ *   4 - vacancy rates stored next to the rents
+ *   5 - categories follow the structure-type hierarchy ("All" is the total row)
+ *   6 - no stored DataAge; the age is derived from RefDate when it is needed
+ *   7 - RefDate stored as the survey date ("2024-10-01"), list of reference periods
+ *   8 - monthly CPI for rented accommodation stored next to the rents
+ *   9 - every rent is positive; suppressed cells older files stored as 0 are dropped
+ *
+ * Records may carry a Status quality grade (A to D); files written before
+ * grades were kept simply omit it.
+ */
+
+export const CURRENT_SCHEMA_VERSION = 9;
+
+export interface CmhcDataMetadata {
+  schemaVersion: number;
+  generatedAt: string;
+  releaseTime?: string;
+  recordCount: number;
+  vacancyRecordCount: number;
+  cpiRecordCount: number;
+  dataYear?: number;
+  years: number[];
+  // Survey reference periods as dates, oldest first
+  periods: string[];
+  uniqueBedroomTypes: string[];
+  uniqueCities: number;
+  uniqueStructureTypes: string[];
+  uniqueCategories: string[];
+}
+
+export interface CmhcDataFile {
+  metadata: CmhcDataMetadata;
+  geographies: Geography[];
+  data: RentalRecord[];
+  vacancy: VacancyRecord[];
+  cpi: CpiRecord[];
+}
+
+/**
+ * Raised when a data file cannot be migrated or does not match the schema
+ */
+export class DataSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataSchemaError';
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, DataSchemaError.prototype);
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses a rent value stored as text (e.g. "1,284" or "$983") into a number.
+ * Anything else, such as the ".." and "x" symbols, is NaN rather than
+ * having its digits scraped out.
+ */
+export const parseRentValue = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return NaN;
+
+  const cleaned = value.trim().replace(/^\$/, '').replace(/,/g, '');
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) return NaN;
+
+  return parseFloat(cleaned);
+};
+
+/**
+ * Lists the distinct reference periods of a set of records, oldest first
+ */
+const listReferencePeriods = (records: { RefDate?: unknown }[]): string[] => {
+  return Array.from(new Set(records
+    .map(record => record.RefDate)
+    .filter((refDate): refDate is string => typeof refDate === 'string' && refDate !== ''))).sort();
+};
+
+/**
+ * Builds the metadata block describing a set of records
+ */
+export const buildMetadata = (
+  records: RentalRecord[],
+  options: { generatedAt?: Date, releaseTime?: string, vacancy?: VacancyRecord[], cpi?: CpiRecord[] } = {}
+): CmhcDataMetadata => {
+  const years = Array.from(new Set(records
+    .filter(r => r.Year !== undefined)
+    .map(r => r.Year as number))).sort((a, b) => a - b);
+
+  const periods = listReferencePeriods(records);
+
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    generatedAt: (options.generatedAt || new Date()).toISOString(),
+    releaseTime: options.releaseTime,
+    recordCount: records.length,
+    vacancyRecordCount: options.vacancy ? options.vacancy.length : 0,
+    cpiRecordCount: options.cpi ? options.cpi.length : 0,
+    dataYear: years.length > 0 ? years[years.length - 1] : undefined,
+    years,
+    periods,
+    uniqueBedroomTypes: Array.from(new Set(records.map(r => r.Bedrooms))),
+    uniqueCities: Array.from(new Set(records.map(r => r.GEO.split(',')[0].trim()))).length,
+    uniqueStructureTypes: Array.from(new Set(records.map(r => r.StructureType || 'Unknown'))),
+    uniqueCategories: Array.from(new Set(records.map(r => r.Category || 'Uncategorized')))
+  };
+};
+
+// Migrations keyed by the version they upgrade from
+const MIGRATIONS: Record<number, (file: Record<string, any>) => Record<string, any>> = {
+  // v1 -> v2: numeric VALUE, survey year list and a declared schema version
+  1: (file) => {
+    const data = Array.isArray(file.data)
+      ? file.data.map((record: any) => isObject(record)
+          ? { ...record, VALUE: parseRentValue(record.VALUE) }
+          : record)
+      : file.data;
+
+    const years = Array.isArray(data)
+      ? Array.from(new Set(data
+          .map((record: any) => record && record.Year)
+          .filter((year: unknown): year is number => typeof year === 'number'))).sort((a, b) => a - b)
+      : [];
+
+    return {
+      ...file,
+      metadata: { ...file.metadata, schemaVersion: 2, years },
+      data
+    };
+  },
+
+  // v2 -> v3: geography table; older files have no DGUIDs, so areas are keyed by their GEO label
+  2: (file) => {
+    const data = Array.isArray(file.data)
+      ? file.data.map((record: any) => isObject(record) && record.DGUID === undefined && typeof record.GEO === 'string'
+          ? { ...record, DGUID: legacyGeographyKey(record.GEO) }
+          : record)
+      : file.data;
+
+    const geographies = Array.isArray(data)
+      ? buildGeographyTable(data.filter((record: any) => isObject(record) && typeof record.GEO === 'string'))
+      : [];
+
+    return {
+      ...file,
+      metadata: { ...file.metadata, schemaVersion: 3 },
+      geographies,
+      data
+    };
+  },
+
+  // v3 -> v4: vacancy rates; older files have none
+  3: (file) => ({
+    ...file,
+    metadata: { ...file.metadata, schemaVersion: 4, vacancyRecordCount: 0 },
+    vacancy: []
+  }),
+
+  // v4 -> v5: categories were peer labels ("Multi-Plex" for the total row); derive them again from the structure type
+  4: (file) => {
+    const data = Array.isArray(file.data)
+      ? file.data.map((record: any) => isObject(record) && typeof record.StructureType === 'string'
+          ? { ...record, Category: mapStructureTypeToCategory(record.StructureType) }
+          : record)
+      : file.data;
+
+    return {
+      ...file,
+      metadata: {
+        ...file.metadata,
+        schemaVersion: 5,
+        uniqueCategories: Array.isArray(data)
+          ? Array.from(new Set(data.map((record: any) => (isObject(record) && record.Category) || 'Uncategorized')))
+          : []
+      },
+      data
+    };
+  },
+
+  // v5 -> v6: DataAge was frozen at ingestion time; drop it
+  5: (file) => ({
+    ...file,
+    metadata: { ...file.metadata, schemaVersion: 6 },
+    data: Array.isArray(file.data)
+      ? file.data.map((record: any) => {
+          if (!isObject(record) || !('DataAge' in record)) return record;
+          const migrated = { ...record };
+          delete migrated.DataAge;
+          return migrated;
+        })
+      : file.data
+  }),
+
+  // v6 -> v7: bare years ("2024") become the October survey date; April periods keep their month
+  6: (file) => {
+    const normalize = (records: unknown) => Array.isArray(records)
+      ? records.map((record: any) => isObject(record) && typeof record.RefDate === 'string'
+          ? { ...record, RefDate: normalizeRefDate(record.RefDate) }
+          : record)
+      : records;
+    const data = normalize(file.data);
+
+    return {
+      ...file,
+      metadata: {
+        ...file.metadata,
+        schemaVersion: 7,
+        periods: Array.isArray(data) ? listReferencePeriods(data.filter(isObject)) : []
+      },
+      data,
+      vacancy: normalize(file.vacancy)
+    };
+  },
+
+  // v7 -> v8: CPI for rented accommodation; older files have none, so adjustments use the fallback rate
+  7: (file) => ({
+    ...file,
+    metadata: { ...file.metadata, schemaVersion: 8, cpiRecordCount: 0 },
+    cpi: []
+  }),
+
+  // v8 -> v9: a rent of 0 is a suppressed cell, not a rent; drop those records so they are never averaged
+  8: (file) => {
+    const data = Array.isArray(file.data)
+      ? file.data.filter((record: any) => !isObject(record) || typeof record.VALUE !== 'number' || record.VALUE > 0)
+      : file.data;
+
+    return {
+      ...file,
+      metadata: {
+        ...file.metadata,
+        schemaVersion: 9,
+        recordCount: Array.isArray(data) ? data.length : file.metadata?.recordCount
+      },
+      data
+    };
+  }
+};
+
+/**
+ * Upgrades a parsed data file to the current schema version
+ */
+export const migrateDataFile = (raw: unknown): Record<string, any> => {
+  if (!isObject(raw)) {
+    throw new DataSchemaError('Data file must be a JSON object with metadata and data');
+  }
+
+  let file: Record<string, any> = raw;
+  let version = isObject(file.metadata) && file.metadata.schemaVersion !== undefined
+    ? file.metadata.schemaVersion
+    : 1;
+
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new DataSchemaError(`Invalid schemaVersion: ${JSON.stringify(version)}`);
+  }
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new DataSchemaError(
+      `Data file schemaVersion ${version} is newer than supported version ${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new DataSchemaError(`No migration from schemaVersion ${version}`);
+    }
+    file = migrate(file);
+    version++;
+  }
+
+  return file;
+};
+
+/**
+ * Checks a single record against the schema, returning the first problem found
+ */
+const validateRecord = (record: unknown): string | null => {
+  if (!isObject(record)) return 'must be an object';
+
+  if (typeof record.GEO !== 'string' || record.GEO.trim() === '') return 'GEO must be a non-empty string';
+  if (typeof record.DGUID !== 'string' || record.DGUID === '') return 'DGUID must be a non-empty string';
+  if (typeof record.Bedrooms !== 'string' || record.Bedrooms === '') return 'Bedrooms must be a non-empty string';
+  if (typeof record.VALUE !== 'number' || !isFinite(record.VALUE) || record.VALUE <= 0) {
+    return `VALUE must be a positive number (got ${JSON.stringify(record.VALUE)})`;
+  }
+  if (record.Year !== undefined && (typeof record.Year !== 'number' || !Number.isInteger(record.Year))) {
+    return 'Year must be an integer';
+  }
+  if (record.DataAge !== undefined) return 'DataAge is no longer stored (schema v6)';
+
+  if (record.Status !== undefined && !isQualityGrade(record.Status)) {
+    return `Status must be a quality grade A to D (got ${JSON.stringify(record.Status)})`;
+  }
+
+  for (const field of ['RefDate', 'StructureType', 'Category']) {
+    if (record[field] !== undefined && typeof record[field] !== 'string') return `${field} must be a string`;
+  }
+
+  return null;
+};
+
+/**
+ * Validates a list of records, throwing on the first invalid one
+ */
+export const validateRecords = (data: unknown): RentalRecord[] => {
+  if (!Array.isArray(data)) {
+    throw new DataSchemaError('data must be an array of records');
+  }
+
+  for (let i = 0; i < data.length; i++) {
+    const problem = validateRecord(data[i]);
+    if (problem) {
+      throw new DataSchemaError(`data[${i}]: ${problem}`);
+    }
+  }
+
+  return data as RentalRecord[];
+};
+
+/**
+ * Validates the vacancy rates, throwing on the first invalid one
+ */
+export const validateVacancyRecords = (vacancy: unknown): VacancyRecord[] => {
+  if (!Array.isArray(vacancy)) {
+    throw new DataSchemaError('vacancy must be an array of records');
+  }
+
+  vacancy.forEach((record: unknown, i) => {
+    if (!isObject(record)) {
+      throw new DataSchemaError(`vacancy[${i}]: must be an object`);
+    }
+    for (const field of ['GEO', 'DGUID', 'Bedrooms']) {
+      if (typeof record[field] !== 'string' || record[field] === '') {
+        throw new DataSchemaError(`vacancy[${i}]: ${field} must be a non-empty string`);
+      }
+    }
+    if (typeof record.VALUE !== 'number' || !isFinite(record.VALUE) || record.VALUE < 0 || record.VALUE > 100) {
+      throw new DataSchemaError(`vacancy[${i}]: VALUE must be a percentage (got ${JSON.stringify(record.VALUE)})`);
+    }
+    if (record.Year !== undefined && (typeof record.Year !== 'number' || !Number.isInteger(record.Year))) {
+      throw new DataSchemaError(`vacancy[${i}]: Year must be an integer`);
+    }
+    if (record.Status !== undefined && !isQualityGrade(record.Status)) {
+      throw new DataSchemaError(`vacancy[${i}]: Status must be a quality grade A to D`);
+    }
+  });
+
+  return vacancy as VacancyRecord[];
+};
+
+/**
+ * Validates the CPI series, throwing on the first invalid entry
+ */
+export const validateCpiRecords = (cpi: unknown): CpiRecord[] => {
+  if (!Array.isArray(cpi)) {
+    throw new DataSchemaError('cpi must be an array of records');
+  }
+
+  cpi.forEach((record: unknown, i) => {
+    if (!isObject(record)) {
+      throw new DataSchemaError(`cpi[${i}]: must be an object`);
+    }
+    if (typeof record.GEO !== 'string' || record.GEO === '') {
+      throw new DataSchemaError(`cpi[${i}]: GEO must be a non-empty string`);
+    }
+    if (typeof record.RefDate !== 'string' || !/^\d{4}-\d{2}-01$/.test(record.RefDate)) {
+      throw new DataSchemaError(`cpi[${i}]: RefDate must be the first day of a month (got ${JSON.stringify(record.RefDate)})`);
+    }
+    if (typeof record.VALUE !== 'number' || !isFinite(record.VALUE) || record.VALUE <= 0) {
+      throw new DataSchemaError(`cpi[${i}]: VALUE must be a positive index (got ${JSON.stringify(record.VALUE)})`);
+    }
+  });
+
+  return cpi as CpiRecord[];
+};
+
+/**
+ * Validates the geography table, throwing on the first invalid entry
+ */
+export const validateGeographies = (geographies: unknown): Geography[] => {
+  if (!Array.isArray(geographies)) {
+    throw new DataSchemaError('geographies must be an array');
+  }
+
+  const seen = new Set<string>();
+
+  geographies.forEach((geography: unknown, i) => {
+    if (!isObject(geography)) {
+      throw new DataSchemaError(`geographies[${i}]: must be an object`);
+    }
+    for (const field of ['dguid', 'name', 'geo']) {
+      if (typeof geography[field] !== 'string' || geography[field] === '') {
+        throw new DataSchemaError(`geographies[${i}]: ${field} must be a non-empty string`);
+      }
+    }
+    if (!GEOGRAPHY_TYPES.includes(geography.type)) {
+      throw new DataSchemaError(`geographies[${i}]: unknown type ${JSON.stringify(geography.type)}`);
+    }
+    if (!Array.isArray(geography.provinces) || geography.provinces.some((p: unknown) => typeof p !== 'string')) {
+      throw new DataSchemaError(`geographies[${i}]: provinces must be an array of strings`);
+    }
+    if (geography.parentDguid !== undefined && typeof geography.parentDguid !== 'string') {
+      throw new DataSchemaError(`geographies[${i}]: parentDguid must be a string`);
+    }
+    if (seen.has(geography.dguid)) {
+      throw new DataSchemaError(`geographies[${i}]: duplicate DGUID ${geography.dguid}`);
+    }
+    seen.add(geography.dguid);
+  });
+
+  return geographies as Geography[];
+};
+
+/**
+ * Validates a data file that is already at the current schema version
+ */
+export const validateDataFile = (file: unknown): CmhcDataFile => {
+  if (!isObject(file) || !isObject(file.metadata)) {
+    throw new DataSchemaError('Data file must have a metadata object');
+  }
+
+  const { metadata } = file;
+
+  if (metadata.schemaVersion !== CURRENT_SCHEMA_VERSION) {
+    throw new DataSchemaError(
+      `Expected schemaVersion ${CURRENT_SCHEMA_VERSION}, got ${JSON.stringify(metadata.schemaVersion)}`
+    );
+  }
+  if (typeof metadata.generatedAt !== 'string' || isNaN(Date.parse(metadata.generatedAt))) {
+    throw new DataSchemaError('metadata.generatedAt must be an ISO date string');
+  }
+  if (metadata.releaseTime !== undefined && typeof metadata.releaseTime !== 'string') {
+    throw new DataSchemaError('metadata.releaseTime must be a string');
+  }
+  if (!Array.isArray(metadata.years) || metadata.years.some((year: unknown) => typeof year !== 'number')) {
+    throw new DataSchemaError('metadata.years must be an array of numbers');
+  }
+  if (!Array.isArray(metadata.periods) || metadata.periods.some((period: unknown) => typeof period !== 'string')) {
+    throw new DataSchemaError('metadata.periods must be an array of strings');
+  }
+
+  const geographies = validateGeographies(file.geographies);
+  const data = validateRecords(file.data);
+  const vacancy = validateVacancyRecords(file.vacancy);
+  const cpi = validateCpiRecords(file.cpi);
+
+  if (data.length === 0) {
+    throw new DataSchemaError('Data file contains no records');
+  }
+
+  // Every record must reference an area in the geography table
+  const dguids = new Set(geographies.map(g => g.dguid));
+  const orphan = data.findIndex(record => !dguids.has(record.DGUID));
+  if (orphan !== -1) {
+    throw new DataSchemaError(`data[${orphan}]: DGUID ${data[orphan].DGUID} is not in the geography table`);
+  }
+  const vacancyOrphan = vacancy.findIndex(record => !dguids.has(record.DGUID));
+  if (vacancyOrphan !== -1) {
+    throw new DataSchemaError(
+      `vacancy[${vacancyOrphan}]: DGUID ${vacancy[vacancyOrphan].DGUID} is not in the geography table`
+    );
+  }
+  if (metadata.recordCount !== data.length) {
+    throw new DataSchemaError(
+      `metadata.recordCount (${metadata.recordCount}) does not match the ${data.length} records in data`
+    );
+  }
+  if (metadata.vacancyRecordCount !== vacancy.length) {
+    throw new DataSchemaError(
+      `metadata.vacancyRecordCount (${metadata.vacancyRecordCount}) does not match the ${vacancy.length} vacancy records`
+    );
+  }
+  if (metadata.cpiRecordCount !== cpi.length) {
+    throw new DataSchemaError(
+      `metadata.cpiRecordCount (${metadata.cpiRecordCount}) does not match the ${cpi.length} CPI records`
+    );
+  }
+
+  return file as CmhcDataFile;
+};
+
+/**
+ * Migrates and validates a parsed data file
+ */
+export const loadDataFile = (raw: unknown): CmhcDataFile => {
+  return validateDataFile(migrateDataFile(raw));
+};
+
+/**
+ * Parses, migrates and validates the text of a data file
+ */
+export const parseDataFile = (json: string): CmhcDataFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new DataSchemaError(`Data file is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return loadDataFile(raw);
+};
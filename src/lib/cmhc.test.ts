@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getAvailableCategories, getAvailableMunicipalities, matchCity, RentalRecord } from './cmhc';
+import { getDataset, Dataset } from './data-store';
+import { buildGeographyTable } from './geography';
+
+vi.mock('./data-store', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./data-store')>(),
+  getDataset: vi.fn()
+}));
+
+const dataset: Dataset = {
+  version: 'test',
+  snapshot: null,
+  metadata: null,
+  data: [],
+  geographies: buildGeographyTable([
+    { GEO: 'Toronto, Ontario', DGUID: '2021S0503535' },
+    { GEO: 'Belleville - Quinte West, Ontario', DGUID: '2021S0503522' }
+  ]),
+  vacancy: [],
+  cpi: []
+};
+
+afterEach(() => {
+  vi.mocked(getDataset).mockReset();
+});
+
+describe('matchCity', () => {
+  it('names the market used for a municipality', async () => {
+    vi.mocked(getDataset).mockResolvedValue(dataset);
+
+    expect(await matchCity('Brampton')).toEqual({ market: 'Toronto', matchedBy: 'municipality' });
+    expect(await matchCity('toronto')).toEqual({ market: 'Toronto', matchedBy: 'name' });
+    expect(await matchCity('Brampton', 'QC')).toBeNull();
+    expect(await matchCity('Brampton', 'XX')).toBeNull();
+  });
+});
+
+describe('getAvailableMunicipalities', () => {
+  it('lists municipalities inside the loaded markets, without the markets themselves', async () => {
+    vi.mocked(getDataset).mockResolvedValue(dataset);
+
+    const municipalities = await getAvailableMunicipalities();
+
+    expect(municipalities).toContainEqual({ name: 'Mississauga', market: 'Toronto' });
+    expect(municipalities).toContainEqual({ name: 'Quinte West', market: 'Belleville - Quinte West' });
+    expect(municipalities.some(municipality => municipality.name === 'Toronto' || municipality.market === 'Hamilton')).toBe(false);
+    expect(municipalities.map(municipality => municipality.name)).toEqual([...municipalities.map(municipality => municipality.name)].sort((a, b) => a.localeCompare(b)));
+  });
+});
+
+describe('getAvailableCategories', () => {
+  const rent = (Category: string, VALUE: number): RentalRecord => ({
+    GEO: 'Toronto, Ontario', DGUID: '2021S0503535', Bedrooms: '1', VALUE, RefDate: '2024-10-01', Year: 2024, Category
+  });
+
+  it('offers only categories with a published rent', async () => {
+    vi.mocked(getDataset).mockResolvedValue({ ...dataset, data: [rent('Townhouse', 1800), rent('All', 1650), rent('Apartment', 0)] });
+
+    expect(await getAvailableCategories('Toronto', '1')).toEqual(['All', 'Townhouse']);
+  });
+});
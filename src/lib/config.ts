@@ -0,0 +1,48 @@
+// Import path only in server context
+const path = typeof window === 'undefined' ? require('path') : null;
+
+/**
+ * Environment-driven settings shared by the ingestion and refresh code
+ */
+
+// Statistics Canada Web Data Service (WDS) REST endpoint
+export const DEFAULT_WDS_BASE_URL = 'https://www150.statcan.gc.ca/t1/wds/rest';
+
+/**
+ * Gets the WDS base URL, overridable with STATCAN_WDS_BASE_URL (e.g. to point at the local mock server)
+ */
+export const getWdsBaseUrl = (): string => {
+  return (process.env.STATCAN_WDS_BASE_URL || DEFAULT_WDS_BASE_URL).replace(/\/+$/, '');
+};
+
+/**
+ * Gets the directory holding the static data files, overridable with CMHC_DATA_DIR
+ */
+export const getDataDir = (): string => {
+  if (!path) return '';
+
+  return process.env.CMHC_DATA_DIR
+    ? path.resolve(process.env.CMHC_DATA_DIR)
+    : path.join(process.cwd(), 'public', 'data');
+};
+
+// Annual rent increase assumed when there is no CPI to adjust stale averages with
+export const DEFAULT_RENT_ADJUSTMENT_RATE = 0.05;
+
+/**
+ * Gets the fallback annual rent increase, overridable with RENT_ADJUSTMENT_FALLBACK_RATE (e.g. 0.04 for 4%)
+ */
+export const getRentAdjustmentFallbackRate = (): number => {
+  const rate = parseFloat(process.env.RENT_ADJUSTMENT_FALLBACK_RATE || '');
+  return isFinite(rate) && rate > -1 ? rate : DEFAULT_RENT_ADJUSTMENT_RATE;
+};
+
+/**
+ * Gets the base URL of this deployment for server-side fetches of our own routes:
+ * VERCEL_URL on Vercel, NEXT_PUBLIC_BASE_URL when set, otherwise the local dev server
+ */
+export const getAppBaseUrl = (): string => {
+  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`;
+  if (process.env.NEXT_PUBLIC_BASE_URL) return process.env.NEXT_PUBLIC_BASE_URL.replace(/\/+$/, '');
+  return `http://localhost:${process.env.PORT || 3000}`;
+};
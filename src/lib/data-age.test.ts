@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { getClockMonth, getDataAge } from './data-age';
+
+const clockAt = (year: number, month: number, day = 15) => () => new Date(year, month - 1, day);
+
+describe('getDataAge', () => {
+  it('counts whole calendar months since the survey', () => {
+    expect(getDataAge('2024-10-01', clockAt(2026, 10))).toBe(24);
+    expect(getDataAge('2024-10-01', clockAt(2024, 11, 1))).toBe(1);
+  });
+
+  it('treats a bare year as the October survey', () => {
+    expect(getDataAge('2024', clockAt(2025, 4))).toBe(6);
+  });
+
+  it('keeps counting as the clock moves on', () => {
+    expect(getDataAge('2024-04-01', clockAt(2025, 4))).toBe(12);
+    expect(getDataAge('2024-04-01', clockAt(2025, 5))).toBe(13);
+  });
+
+  it('is never negative', () => {
+    expect(getDataAge('2026-10-01', clockAt(2026, 1))).toBe(0);
+  });
+
+  it('is undefined for a period that cannot be parsed', () => {
+    expect(getDataAge(undefined, clockAt(2026, 10))).toBeUndefined();
+    expect(getDataAge('not a date', clockAt(2026, 10))).toBeUndefined();
+  });
+});
+
+describe('getClockMonth', () => {
+  it('formats the clock month', () => {
+    expect(getClockMonth(clockAt(2026, 3))).toBe('2026-03');
+    expect(getClockMonth(clockAt(2026, 12, 31))).toBe('2026-12');
+  });
+});
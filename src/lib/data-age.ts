@@ -0,0 +1,31 @@
+import { parseRefDate } from './survey-periods';
+
+/**
+ * Age of the survey data, worked out from a record's reference period each
+ * time it is asked for rather than stored, so it keeps counting after the data
+ * file is written. Callers pass a clock to pin "now", e.g. in checks and scripts.
+ */
+
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+/**
+ * Gets how many whole calendar months ago a reference period was, or undefined when it cannot be parsed
+ */
+export const getDataAge = (refDate: string | undefined, clock: Clock = systemClock): number | undefined => {
+  const { date } = parseRefDate(refDate || '');
+  if (!date) return undefined;
+
+  const now = clock();
+  const months = (now.getFullYear() - date.getFullYear()) * 12 + (now.getMonth() - date.getMonth());
+  return Math.max(0, months);
+};
+
+/**
+ * Gets the clock's month ("2026-10"); responses whose data age depends on it change when it does
+ */
+export const getClockMonth = (clock: Clock = systemClock): string => {
+  const now = clock();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { loadDataFile, CmhcDataFile } from './cmhc-schema';
+import { computeDataDiff, hasDataChanges } from './data-diff';
+
+const TOTAL = 'Row and apartment structures of three units and over';
+
+// A data file at the current schema version holding the given rents
+const dataFile = (rents: { geo: string, dguid: string, beds: string, value: number, year?: number, refDate?: string }[]): CmhcDataFile => loadDataFile({
+  metadata: { generatedAt: '2025-01-27T08:30:00.000Z', recordCount: rents.length },
+  data: rents.map(rent => ({
+    GEO: rent.geo,
+    DGUID: rent.dguid,
+    Bedrooms: rent.beds,
+    VALUE: rent.value,
+    RefDate: rent.refDate || String(rent.year || 2024),
+    Year: rent.year || 2024,
+    StructureType: TOTAL
+  }))
+});
+
+const toronto = (beds: string, value: number, year?: number) =>
+  ({ geo: 'Toronto, Ontario', dguid: '2021S0503535', beds, value, year });
+const kingston = (beds: string, value: number) =>
+  ({ geo: 'Kingston, Ontario', dguid: '2021S0503521', beds, value });
+
+describe('computeDataDiff', () => {
+  it('lists added, removed and changed cells', () => {
+    const previous = dataFile([toronto('1', 1600), toronto('2', 2000), kingston('1', 1300)]);
+    const next = dataFile([toronto('1', 1680), toronto('2', 2000), kingston('2', 1500)]);
+
+    const diff = computeDataDiff(previous, next, { from: 'a', to: 'b' });
+
+    expect(diff).toMatchObject({
+      fromSnapshot: 'a',
+      toSnapshot: 'b',
+      summary: { added: 1, removed: 1, changed: 1, unchanged: 1 }
+    });
+    expect(diff.changed).toEqual([{
+      dguid: '2021S0503535',
+      city: 'Toronto',
+      provinces: ['Ontario'],
+      year: 2024,
+      period: '2024-10-01',
+      beds: '1',
+      category: expect.any(String),
+      oldValue: 1600,
+      newValue: 1680,
+      change: 80,
+      percentChange: 0.05
+    }]);
+    expect(diff.added).toMatchObject([{ city: 'Kingston', beds: '2', newValue: 1500 }]);
+    expect(diff.removed).toMatchObject([{ city: 'Kingston', beds: '1', oldValue: 1300 }]);
+  });
+
+  it('tells survey years apart', () => {
+    const previous = dataFile([toronto('1', 1600, 2023)]);
+    const next = dataFile([toronto('1', 1600, 2023), toronto('1', 1680, 2024)]);
+
+    expect(computeDataDiff(previous, next, { from: 'a', to: 'b' }).summary)
+      .toEqual({ added: 1, removed: 0, changed: 0, unchanged: 1 });
+  });
+
+  it('tells the April and October surveys of a year apart', () => {
+    const previous = dataFile([toronto('1', 1600)]);
+    const next = dataFile([toronto('1', 1600), { ...toronto('1', 1650), refDate: '2024-04-01' }]);
+
+    const diff = computeDataDiff(previous, next, { from: 'a', to: 'b' });
+
+    expect(diff.summary).toEqual({ added: 1, removed: 0, changed: 0, unchanged: 1 });
+    expect(diff.added).toMatchObject([{ period: '2024-04-01', newValue: 1650 }]);
+  });
+
+  it('counts every cell as added on the first refresh', () => {
+    const diff = computeDataDiff(null, dataFile([toronto('1', 1600), kingston('1', 1300)]), { from: null, to: 'b' });
+
+    expect(diff.fromSnapshot).toBeNull();
+    expect(diff.added.map(cell => cell.city)).toEqual(['Kingston', 'Toronto']);
+  });
+});
+
+describe('hasDataChanges', () => {
+  it('is false only when every cell is unchanged', () => {
+    expect(hasDataChanges({ added: 0, removed: 0, changed: 0, unchanged: 5 })).toBe(false);
+    expect(hasDataChanges({ added: 0, removed: 1, changed: 0, unchanged: 5 })).toBe(true);
+  });
+});
@@ -0,0 +1,146 @@
+import type { RentalRecord } from './cmhc';
+import type { CmhcDataFile } from './cmhc-schema';
+import type { Geography } from './geography';
+
+/**
+ * Cell-by-cell comparison of two data files.
+ * A cell is one area, survey year, bedroom count and housing category; every
+ * cell that was added, removed or changed value is listed with its change.
+ */
+
+export interface DiffCell {
+  dguid: string;
+  city: string;
+  provinces: string[];
+  year?: number;
+  // Reference period within the year, e.g. "2024-10-01"
+  period?: string;
+  beds: string;
+  category: string;
+  oldValue?: number;
+  newValue?: number;
+  // newValue - oldValue, for changed cells
+  change?: number;
+  // Change relative to oldValue (0.05 = 5%), for changed cells
+  percentChange?: number;
+}
+
+export interface DataDiff {
+  fromSnapshot: string | null;
+  toSnapshot: string;
+  generatedAt: string;
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+  };
+  added: DiffCell[];
+  removed: DiffCell[];
+  changed: DiffCell[];
+}
+
+const cellKey = (record: RentalRecord): string =>
+  [record.DGUID, record.Year ?? '', record.RefDate ?? '', record.Bedrooms, record.Category || record.StructureType || ''].join('|');
+
+/**
+ * Describes the cell a record belongs to, naming the area from the geography table
+ */
+const describeCell = (record: RentalRecord, geographies: Map<string, Geography>): DiffCell => {
+  const geography = geographies.get(record.DGUID);
+
+  return {
+    dguid: record.DGUID,
+    city: geography ? geography.name : record.GEO.split(',')[0].trim(),
+    provinces: geography ? geography.provinces : [],
+    year: record.Year,
+    period: record.RefDate,
+    beds: record.Bedrooms,
+    category: record.Category || record.StructureType || ''
+  };
+};
+
+const round = (value: number, places: number): number => {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Orders cells by city, year, period, bedrooms and category so reports read naturally
+ */
+const compareCells = (a: DiffCell, b: DiffCell): number =>
+  a.city.localeCompare(b.city) ||
+  (a.year ?? 0) - (b.year ?? 0) ||
+  (a.period || '').localeCompare(b.period || '') ||
+  a.beds.localeCompare(b.beds) ||
+  a.category.localeCompare(b.category);
+
+/**
+ * Compares the previous data file (null on the first refresh) with a new one
+ */
+export const computeDataDiff = (
+  previous: CmhcDataFile | null,
+  next: CmhcDataFile,
+  snapshots: { from: string | null, to: string }
+): DataDiff => {
+  const geographies = new Map<string, Geography>();
+  for (const geography of [...(previous ? previous.geographies : []), ...next.geographies]) {
+    geographies.set(geography.dguid, geography);
+  }
+
+  const oldCells = new Map<string, RentalRecord>();
+  for (const record of previous ? previous.data : []) {
+    oldCells.set(cellKey(record), record);
+  }
+
+  const added: DiffCell[] = [];
+  const changed: DiffCell[] = [];
+  let unchanged = 0;
+
+  for (const record of next.data) {
+    const key = cellKey(record);
+    const old = oldCells.get(key);
+    oldCells.delete(key);
+
+    if (!old) {
+      added.push({ ...describeCell(record, geographies), newValue: record.VALUE });
+    } else if (old.VALUE !== record.VALUE) {
+      const change = record.VALUE - old.VALUE;
+      changed.push({
+        ...describeCell(record, geographies),
+        oldValue: old.VALUE,
+        newValue: record.VALUE,
+        change: round(change, 2),
+        percentChange: old.VALUE !== 0 ? round(change / old.VALUE, 4) : undefined
+      });
+    } else {
+      unchanged++;
+    }
+  }
+
+  // Whatever is left in the old cells is gone from the new data
+  const removed = Array.from(oldCells.values())
+    .map(record => ({ ...describeCell(record, geographies), oldValue: record.VALUE }));
+
+  return {
+    fromSnapshot: snapshots.from,
+    toSnapshot: snapshots.to,
+    generatedAt: new Date().toISOString(),
+    summary: {
+      added: added.length,
+      removed: removed.length,
+      changed: changed.length,
+      unchanged
+    },
+    added: added.sort(compareCells),
+    removed: removed.sort(compareCells),
+    changed: changed.sort(compareCells)
+  };
+};
+
+/**
+ * Checks whether a diff summary counts any added, removed or changed cell
+ */
+export const hasDataChanges = (summary: DataDiff['summary']): boolean => {
+  return summary.added + summary.removed + summary.changed > 0;
+};
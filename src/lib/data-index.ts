@@ -0,0 +1,147 @@
+import type { CpiRecord, RentalRecord, VacancyRecord } from './cmhc';
+import { getDataset, Dataset } from './data-store';
+import { buildGeographyIndex, GeographyIndex } from './geography';
+
+/**
+ * Lookup tables over a loaded dataset, built once per dataset version so that
+ * rent, category and vacancy lookups are map reads instead of scans of every record.
+ * Keys join the DGUID, bedroom count, survey year ('' when unknown) and category with "|".
+ */
+
+export interface DataIndex {
+  // Survey years in the rent data, oldest first
+  years: number[];
+  latestYear?: number;
+  // Bedroom types in the rent data, e.g. '0', '1', '2', '3+'
+  bedrooms: string[];
+  geographies: GeographyIndex;
+  // Records per area, bedroom count and year, across categories
+  rents: Map<string, RentalRecord[]>;
+  // Records per area, bedroom count, year and category
+  rentsByCategory: Map<string, RentalRecord[]>;
+  // Records per area and bedroom count, across years and categories
+  rentsByArea: Map<string, RentalRecord[]>;
+  // Vacancy rates per area and bedroom count (or 'Total')
+  vacancy: Map<string, VacancyRecord[]>;
+  // Monthly rent CPI per province (or 'Canada'), oldest month first
+  cpi: Map<string, CpiRecord[]>;
+}
+
+const indexes = new WeakMap<Dataset, DataIndex>();
+
+const key = (...parts: (string | number | undefined)[]): string =>
+  parts.map(part => part ?? '').join('|');
+
+const append = <T>(map: Map<string, T[]>, mapKey: string, value: T) => {
+  const list = map.get(mapKey);
+  if (list) {
+    list.push(value);
+  } else {
+    map.set(mapKey, [value]);
+  }
+};
+
+/**
+ * Indexes a dataset's rent records, vacancy rates, CPI and geographies
+ */
+export const buildDataIndex = (dataset: Dataset): DataIndex => {
+  const rents = new Map<string, RentalRecord[]>();
+  const rentsByCategory = new Map<string, RentalRecord[]>();
+  const rentsByArea = new Map<string, RentalRecord[]>();
+  const years = new Set<number>();
+  const bedrooms = new Set<string>();
+
+  for (const record of dataset.data) {
+    bedrooms.add(record.Bedrooms);
+    append(rents, key(record.DGUID, record.Bedrooms, record.Year), record);
+    append(rentsByArea, key(record.DGUID, record.Bedrooms), record);
+    if (record.Category) {
+      append(rentsByCategory, key(record.DGUID, record.Bedrooms, record.Year, record.Category), record);
+    }
+    if (record.Year !== undefined) {
+      years.add(record.Year);
+    }
+  }
+
+  const vacancy = new Map<string, VacancyRecord[]>();
+  for (const record of dataset.vacancy) {
+    append(vacancy, key(record.DGUID, record.Bedrooms), record);
+  }
+
+  const cpi = new Map<string, CpiRecord[]>();
+  for (const record of dataset.cpi) {
+    append(cpi, record.GEO, record);
+  }
+  cpi.forEach(series => series.sort((a, b) => a.RefDate.localeCompare(b.RefDate)));
+
+  const sortedYears = Array.from(years).sort((a, b) => a - b);
+
+  return {
+    years: sortedYears,
+    latestYear: sortedYears.length > 0 ? sortedYears[sortedYears.length - 1] : undefined,
+    bedrooms: Array.from(bedrooms).sort(),
+    geographies: buildGeographyIndex(dataset.geographies),
+    rents,
+    rentsByCategory,
+    rentsByArea,
+    vacancy,
+    cpi
+  };
+};
+
+/**
+ * Gets the index of a dataset, building it on first use
+ */
+export const indexDataset = (dataset: Dataset): DataIndex => {
+  let index = indexes.get(dataset);
+  if (!index) {
+    index = buildDataIndex(dataset);
+    indexes.set(dataset, index);
+  }
+  return index;
+};
+
+/**
+ * Gets the index of the current dataset
+ */
+export const getDataIndex = async (): Promise<DataIndex> => {
+  return indexDataset(await getDataset());
+};
+
+/**
+ * Gets the rent records of an area and bedroom count in one survey year, optionally for one category
+ */
+export const lookupRents = (
+  index: DataIndex,
+  dguid: string,
+  beds: string,
+  year: number | undefined,
+  category?: string
+): RentalRecord[] => {
+  const records = category
+    ? index.rentsByCategory.get(key(dguid, beds, year, category))
+    : index.rents.get(key(dguid, beds, year));
+  return records || [];
+};
+
+/**
+ * Gets the rent records of an area and bedroom count across survey years, optionally for one category
+ */
+export const lookupRentHistory = (index: DataIndex, dguid: string, beds: string, category?: string): RentalRecord[] => {
+  const records = index.rentsByArea.get(key(dguid, beds)) || [];
+  return category ? records.filter(record => record.Category === category) : records;
+};
+
+/**
+ * Gets the vacancy rates of an area for a bedroom count (or 'Total')
+ */
+export const lookupVacancy = (index: DataIndex, dguid: string, beds: string): VacancyRecord[] => {
+  return index.vacancy.get(key(dguid, beds)) || [];
+};
+
+/**
+ * Gets the monthly rent CPI of a province (by its GEO name), oldest month first
+ */
+export const lookupCpi = (index: DataIndex, geo: string): CpiRecord[] => {
+  return index.cpi.get(geo) || [];
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { combineQualityGrades, describeQuality, getExclusionReason, isQualityGrade } from './data-quality';
+
+describe('isQualityGrade', () => {
+  it('accepts the A to D grades', () => {
+    expect(['A', 'B', 'C', 'D'].every(isQualityGrade)).toBe(true);
+    expect(isQualityGrade('F')).toBe(false);
+    expect(isQualityGrade(undefined)).toBe(false);
+  });
+});
+
+describe('getExclusionReason', () => {
+  it('lets graded and blank cells through', () => {
+    expect(getExclusionReason('B')).toBeNull();
+    expect(getExclusionReason(' ')).toBeNull();
+  });
+
+  it('explains why a cell is excluded', () => {
+    expect(getExclusionReason('F')).toBe('too unreliable to be published');
+    expect(getExclusionReason('x')).toMatch(/^suppressed/);
+    expect(getExclusionReason('E')).toBe('unrecognized status "E"');
+  });
+});
+
+describe('describeQuality', () => {
+  it('flags grade D as unreliable', () => {
+    expect(describeQuality('A')).toEqual({ grade: 'A', label: 'Excellent', reliable: true });
+    expect(describeQuality('D').reliable).toBe(false);
+  });
+});
+
+describe('combineQualityGrades', () => {
+  it('takes the worst grade among the cells', () => {
+    expect(combineQualityGrades(['A', 'C', 'B'])).toBe('C');
+    expect(combineQualityGrades(['A', undefined])).toBe('A');
+    expect(combineQualityGrades([undefined])).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Statistics Canada quality indicators for the CMHC rent estimates.
+ * The STATUS column grades each cell from A (excellent) to D (use with caution),
+ * marks cells too unreliable to publish with F, and uses symbols for cells
+ * with no value.
+ */
+
+export type QualityGrade = 'A' | 'B' | 'C' | 'D';
+
+export interface QualityInfo {
+  grade: QualityGrade;
+  label: string;
+  // False when the estimate should be used with caution
+  reliable: boolean;
+}
+
+const QUALITY_LABELS: Record<QualityGrade, string> = {
+  A: 'Excellent',
+  B: 'Very good',
+  C: 'Good',
+  D: 'Use with caution'
+};
+
+// Grades from best to worst
+const GRADE_ORDER: QualityGrade[] = ['A', 'B', 'C', 'D'];
+
+// STATUS values for cells that must not be used
+const EXCLUDED_STATUSES: Record<string, string> = {
+  'F': 'too unreliable to be published',
+  '..': 'not available for a specific reference period',
+  'x': 'suppressed to meet the confidentiality requirements of the Statistics Act'
+};
+
+/**
+ * Checks whether a STATUS value is one of the A to D grades
+ */
+export const isQualityGrade = (status: unknown): status is QualityGrade => {
+  return typeof status === 'string' && GRADE_ORDER.includes(status as QualityGrade);
+};
+
+/**
+ * Gives the reason a cell must be excluded, or null when its value can be used.
+ * A blank STATUS means no quality issue was reported.
+ */
+export const getExclusionReason = (status: string): string | null => {
+  const trimmed = status.trim();
+  if (trimmed === '' || isQualityGrade(trimmed)) return null;
+  return EXCLUDED_STATUSES[trimmed] || `unrecognized status "${trimmed}"`;
+};
+
+/**
+ * Describes a quality grade
+ */
+export const describeQuality = (grade: QualityGrade): QualityInfo => ({
+  grade,
+  label: QUALITY_LABELS[grade],
+  reliable: grade !== 'D'
+});
+
+/**
+ * Gets the quality of an average as the worst grade among its cells;
+ * undefined when none of the cells carry a grade
+ */
+export const combineQualityGrades = (statuses: (string | undefined)[]): QualityGrade | undefined => {
+  return statuses.reduce<QualityGrade | undefined>((worst, status) => {
+    if (!isQualityGrade(status)) return worst;
+    if (worst === undefined) return status;
+    return GRADE_ORDER.indexOf(status) > GRADE_ORDER.indexOf(worst) ? status : worst;
+  }, undefined);
+};
@@ -1,9 +1,13 @@
 // Use conditional imports for Node.js modules
 const fs = typeof window === 'undefined' ? require('fs') : null;
 const path = typeof window === 'undefined' ? require('path') : null;
-// Fix: Use CommonJS import syntax for fetchStaticData
-const fetchStaticDataModule = typeof window === 'undefined' ? require('./fetch-static-data') : null;
-const fetchStaticData = fetchStaticDataModule?.fetchStaticData;
+// ES import so the scheduler also runs outside Next.js (e.g. the offline refresh script)
+import { fetchStaticData } from './fetch-static-data';
+import { getCubeReleaseTime } from './cmhc-ingest';
+import { getCurrentDataFilePath, listSnapshots } from './snapshots';
+import { invalidateDataStore } from './data-store';
+import { hasDataChanges, DataDiff } from './data-diff';
+import { runRefreshJob, startRefreshJob, getLastJobs, countConsecutiveFailures, RefreshJob, RefreshTaskResult, RefreshTrigger } from './refresh-jobs';
 
 // This module handles automated data refresh checks and updates
 
@@ -14,68 +18,49 @@ const CONFIG = {
   // Check interval in milliseconds (24 hours)
   CHECK_INTERVAL: 24 * 60 * 60 * 1000,
   
-  // Path to the data file
-  DATA_FILE: typeof window === 'undefined' ? path.join(process.cwd(), 'public', 'data', 'cmhc-data.json') : '',
-  
-  // Path to store the last check timestamp
-  TIMESTAMP_FILE: typeof window === 'undefined' ? path.join(process.cwd(), 'public', 'data', '.last-check') : '',
+  // Wait after a failed refresh before trying again, doubled for each further failure (15 minutes)
+  FAILED_CHECK_DELAY: 15 * 60 * 1000,
 };
 
 /**
- * Checks if the data needs to be refreshed based on the last check timestamp
+ * Gets when the next scheduled check is due: CHECK_INTERVAL after the last
+ * successful refresh job, or sooner after failures, backing off exponentially
  */
-function needsRefresh(): boolean {
-  // Skip check in browser environment
-  if (typeof window !== 'undefined' || !fs || !path) return false;
+export function getNextCheckTime(): Date {
+  const { lastSuccess, lastFailure } = getLastJobs();
+  const lastSuccessAt = lastSuccess ? new Date(lastSuccess.finishedAt || lastSuccess.startedAt).getTime() : 0;
+  const lastFailureAt = lastFailure ? new Date(lastFailure.finishedAt || lastFailure.startedAt).getTime() : 0;
   
-  try {
-    // Check if the timestamp file exists
-    if (fs.existsSync(CONFIG.TIMESTAMP_FILE)) {
-      const lastCheckTimestamp = parseInt(fs.readFileSync(CONFIG.TIMESTAMP_FILE, 'utf-8'));
-      const now = Date.now();
-      
-      // If the last check was less than CHECK_INTERVAL ago, no refresh needed
-      if (!isNaN(lastCheckTimestamp) && (now - lastCheckTimestamp < CONFIG.CHECK_INTERVAL)) {
-        return false;
-      }
-    }
-    
-    return true;
-  } catch (error) {
-    console.error('Error checking refresh timestamp:', error);
-    return true; // Default to refreshing on error
+  if (lastFailureAt > lastSuccessAt) {
+    const failures = countConsecutiveFailures();
+    const delay = Math.min(CONFIG.FAILED_CHECK_DELAY * Math.pow(2, Math.max(failures - 1, 0)), CONFIG.CHECK_INTERVAL);
+    return new Date(lastFailureAt + delay);
   }
+  
+  return new Date(lastSuccessAt + CONFIG.CHECK_INTERVAL);
 }
 
 /**
- * Updates the last check timestamp
+ * Checks if a scheduled refresh is due
  */
-function updateTimestamp(): void {
-  // Skip in browser environment
-  if (typeof window !== 'undefined' || !fs || !path) return;
+function needsRefresh(): boolean {
+  // Skip check in browser environment
+  if (typeof window !== 'undefined' || !fs || !path) return false;
   
-  try {
-    const dir = path.dirname(CONFIG.TIMESTAMP_FILE);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-    
-    fs.writeFileSync(CONFIG.TIMESTAMP_FILE, Date.now().toString());
-  } catch (error) {
-    console.error('Error updating timestamp:', error);
-  }
+  return Date.now() >= getNextCheckTime().getTime();
 }
 
 /**
- * Gets the metadata from the current data file
+ * Gets the metadata from the current data file (the snapshot the current pointer names)
  */
 function getCurrentMetadata(): any {
   // Skip in browser environment
   if (typeof window !== 'undefined' || !fs || !path) return {};
   
   try {
-    if (fs.existsSync(CONFIG.DATA_FILE)) {
-      const data = JSON.parse(fs.readFileSync(CONFIG.DATA_FILE, 'utf-8'));
+    const dataFile = getCurrentDataFilePath();
+    if (fs.existsSync(dataFile)) {
+      const data = JSON.parse(fs.readFileSync(dataFile, 'utf-8'));
       return data.metadata || {};
     }
     
@@ -88,84 +73,134 @@ function getCurrentMetadata(): any {
 
 /**
  * Clears the cached data in memory
- * This function will be called after the data file is updated
+ * Other processes pick up a newly published snapshot through the data store's pointer check
  */
 export function clearCachedData(): void {
+  invalidateDataStore();
+}
+
+/**
+ * Checks for data updates and refreshes if needed, as a locked and retried refresh job
+ * force runs the check even when none is due; redownload also ignores the StatCan release date
+ * Returns true if data was updated, false otherwise (including when another refresh is running)
+ */
+export async function checkForDataUpdates(
+  options: { force?: boolean, redownload?: boolean, trigger?: RefreshTrigger } = {}
+): Promise<boolean> {
   // Skip in browser environment
-  if (typeof window !== 'undefined' || !fs || !path) return;
+  if (typeof window !== 'undefined' || !fs || !path) return false;
   
-  // Signal that the cache should be refreshed by setting a timestamp
-  try {
-    const cacheSignalFile = path.join(process.cwd(), 'public', 'data', '.cache-invalidated');
-    fs.writeFileSync(cacheSignalFile, Date.now().toString());
-  } catch (error) {
-    console.error('Error clearing cached data:', error);
+  // Skip refresh if not needed based on the job history
+  if (!options.force && !needsRefresh()) {
+    return false;
   }
+  
+  console.log('🔄 Checking for CMHC data updates...');
+  
+  const job = await runRefreshJob(options.trigger || 'scheduled', () => refreshData(options.redownload));
+  return job !== null && job.outcome === 'updated';
 }
 
 /**
- * Checks for data updates and refreshes if needed
- * Returns true if data was updated, false otherwise
+ * Starts a refresh job now and returns without waiting for it, so callers such
+ * as the admin API can poll /api/refresh/status instead of holding a request
+ * open through the download and retries. redownload ignores the StatCan release date.
+ * Returns the running job, or null when another refresh is running
  */
-export async function checkForDataUpdates(): Promise<boolean> {
+export function startDataRefresh(
+  options: { redownload?: boolean, trigger?: RefreshTrigger } = {}
+): RefreshJob | null {
   // Skip in browser environment
-  if (typeof window !== 'undefined' || !fs || !path) return false;
+  if (typeof window !== 'undefined' || !fs || !path) return null;
   
-  console.log('🔄 Checking for CMHC data updates...');
+  console.log('🔄 Starting a CMHC data refresh in the background...');
   
-  // Skip refresh if not needed based on timestamp
-  if (!needsRefresh()) {
-    console.log('🔄 Skipping refresh - last check was recent');
-    return false;
-  }
+  const started = startRefreshJob(options.trigger || 'manual', () => refreshData(options.redownload));
+  if (!started) return null;
   
-  // Update the timestamp even if we don't end up refreshing the data
-  // This prevents repeated checks in a short timeframe
-  updateTimestamp();
+  // Failed attempts are recorded on the job; this only reports errors writing the job history
+  started.finished.catch(error => console.error('🔄 Background refresh job failed to finish:', error));
+  return started.job;
+}
+
+/**
+ * One refresh attempt: compares the StatCan release with the current data and
+ * publishes a new snapshot when needed. Throws when the refresh fails so the job can retry it.
+ */
+async function refreshData(redownload = false): Promise<RefreshTaskResult> {
+  // Get current metadata to compare later
+  const currentMetadata = getCurrentMetadata();
   
+  // Ask StatCan when the table was last released before downloading anything
+  let releaseTime: string | undefined;
   try {
-    // Get current metadata to compare later
-    const currentMetadata = getCurrentMetadata();
+    releaseTime = await getCubeReleaseTime();
     
-    // Fetch new data from the source
-    console.log('🔄 Fetching fresh CMHC data from source...');
-    const result = await fetchStaticData();
-    
-    if (!result.success) {
-      console.error('🔄 Failed to fetch fresh data:', result.error);
-      return false;
-    }
-    
-    // Read the new metadata to compare with current
-    const newData = JSON.parse(fs.readFileSync(CONFIG.DATA_FILE, 'utf-8'));
-    const newMetadata = newData.metadata || {};
-    
-    // Compare metadata to see if there was a meaningful update
-    const hasUpdates = isDataUpdated(currentMetadata, newMetadata);
-    
-    if (hasUpdates) {
-      console.log('🔄 Data was updated. Clearing caches...');
-      clearCachedData();
-      return true;
+    if (redownload) {
+      console.log(`🔄 Downloading StatCan release ${releaseTime} again as requested`);
     } else {
-      console.log('🔄 No meaningful data updates detected');
-      return false;
+      if (currentMetadata.releaseTime && currentMetadata.releaseTime === releaseTime) {
+        console.log(`🔄 No new StatCan release since ${releaseTime} - skipping download`);
+        return { outcome: 'skipped' };
+      }
+      
+      // A release we already hold in a non-current snapshot was rolled back on purpose; don't republish it
+      const rolledBack = listSnapshots().find(snapshot => !snapshot.staged && snapshot.releaseTime === releaseTime);
+      if (rolledBack) {
+        console.log(`🔄 StatCan release ${releaseTime} is already in snapshot ${rolledBack.id} (rolled back) - skipping download`);
+        return { outcome: 'skipped' };
+      }
+      
+      console.log(`🔄 StatCan release ${releaseTime} differs from stored ${currentMetadata.releaseTime || 'none'}`);
     }
   } catch (error) {
-    console.error('🔄 Error checking for updates:', error);
-    return false;
+    console.warn('🔄 Could not read the StatCan release date, downloading anyway:', error);
+  }
+  
+  // Fetch new data from the source
+  console.log('🔄 Fetching fresh CMHC data from source...');
+  const result = await fetchStaticData({ releaseTime });
+  
+  if (!result.success) {
+    throw result.error instanceof Error ? result.error : new Error(String(result.error));
+  }
+  
+  // Read the new metadata to compare with current
+  const newData = JSON.parse(fs.readFileSync(getCurrentDataFilePath(), 'utf-8'));
+  const newMetadata = newData.metadata || {};
+  
+  // Compare the cell diff and metadata to see if there was a meaningful update
+  const hasUpdates = isDataUpdated(currentMetadata, newMetadata, result.diff);
+  
+  if (hasUpdates) {
+    console.log('🔄 Data was updated. Clearing caches...');
+    clearCachedData();
+    return { outcome: 'updated', snapshot: result.snapshot };
+  } else {
+    console.log('🔄 No meaningful data updates detected');
+    return { outcome: 'unchanged', snapshot: result.snapshot };
   }
 }
 
 /**
- * Compares old and new metadata to determine if there was a meaningful update
+ * Compares old and new metadata, and the cell diff of the refresh, to determine if there was a meaningful update
  */
-function isDataUpdated(oldMeta: any, newMeta: any): boolean {
+function isDataUpdated(oldMeta: any, newMeta: any, diff?: DataDiff['summary']): boolean {
   // If no old metadata, consider it an update
   if (!oldMeta || Object.keys(oldMeta).length === 0) {
     return true;
   }
   
+  // Any added, removed or changed cell is an update, even when the counts match
+  if (diff && hasDataChanges(diff)) {
+    return true;
+  }
+  
+  // Check for a new StatCan release
+  if (oldMeta.releaseTime !== newMeta.releaseTime) {
+    return true;
+  }
+  
   // Check for different record count
   if (oldMeta.recordCount !== newMeta.recordCount) {
     return true;
@@ -176,6 +211,11 @@ function isDataUpdated(oldMeta: any, newMeta: any): boolean {
     return true;
   }
   
+  // Check for a different set of survey years
+  if (JSON.stringify(oldMeta.years) !== JSON.stringify(newMeta.years)) {
+    return true;
+  }
+  
   // Check for changes in the unique bedroom types
   if (JSON.stringify(oldMeta.uniqueBedroomTypes) !== JSON.stringify(newMeta.uniqueBedroomTypes)) {
     return true;
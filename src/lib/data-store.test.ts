@@ -0,0 +1,98 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadDataFile, DataSchemaError } from './cmhc-schema';
+import { getDataset, getDataVersion, getVersionHeaders, invalidateDataStore, matchesVersion } from './data-store';
+import { createSnapshot, publishSnapshot } from './snapshots';
+
+let dataDir: string;
+
+// Data file text at the current schema version with one rent
+const dataFileText = (rent: number, generatedAt = '2025-01-01T00:00:00.000Z'): string => JSON.stringify(loadDataFile({
+  metadata: { generatedAt, recordCount: 1 },
+  data: [{ GEO: 'Toronto, Ontario', Bedrooms: '1', VALUE: rent, RefDate: '2024', Year: 2024, StructureType: 'Row and apartment structures of three units and over' }]
+}));
+
+const writeDataFile = (contents: string) => {
+  fs.writeFileSync(path.join(dataDir, 'cmhc-data.json'), contents);
+};
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'data-store-'));
+  vi.stubEnv('CMHC_DATA_DIR', dataDir);
+  vi.useFakeTimers({ toFake: ['Date'] });
+  invalidateDataStore();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('getDataset', () => {
+  it('loads cmhc-data.json with a content version', async () => {
+    writeDataFile(dataFileText(1650));
+
+    const dataset = await getDataset();
+
+    expect(dataset.snapshot).toBeNull();
+    expect(dataset.data.map(record => record.VALUE)).toEqual([1650]);
+    expect(dataset.version).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('shares one load between concurrent readers', async () => {
+    writeDataFile(dataFileText(1650));
+
+    const [first, second] = await Promise.all([getDataset(), getDataset()]);
+
+    expect(first).toBe(second);
+  });
+
+  it('follows a newly published snapshot once the pointer is checked again', async () => {
+    writeDataFile(dataFileText(1650));
+    const before = await getDataset();
+
+    const id = createSnapshot(loadDataFile(JSON.parse(dataFileText(1700, '2025-02-01T00:00:00.000Z'))));
+    publishSnapshot(id);
+
+    expect(await getDataset()).toBe(before);
+
+    vi.advanceTimersByTime(5000);
+    const after = await getDataset();
+
+    expect(after.snapshot).toBe(id);
+    expect(after.version).not.toBe(before.version);
+    expect(after.data[0].VALUE).toBe(1700);
+  });
+
+  it('keeps the version when the same data is loaded again', async () => {
+    writeDataFile(dataFileText(1650));
+    const { version } = await getDataset();
+
+    invalidateDataStore();
+
+    expect(await getDataVersion()).toBe(version);
+  });
+
+  it('refuses a malformed data file', async () => {
+    writeDataFile(JSON.stringify({ metadata: { schemaVersion: 1 }, data: 'nope' }));
+
+    await expect(getDataset()).rejects.toThrow(DataSchemaError);
+  });
+});
+
+describe('version headers', () => {
+  it('sends the version as ETag and X-Data-Version', () => {
+    expect(getVersionHeaders('abc123')).toEqual({ 'ETag': '"abc123"', 'X-Data-Version': 'abc123' });
+  });
+
+  it('matches If-None-Match lists, weak tags and *', () => {
+    expect(matchesVersion('"abc123"', 'abc123')).toBe(true);
+    expect(matchesVersion('"old", W/"abc123"', 'abc123')).toBe(true);
+    expect(matchesVersion('*', 'abc123')).toBe(true);
+    expect(matchesVersion('"old"', 'abc123')).toBe(false);
+    expect(matchesVersion(null, 'abc123')).toBe(false);
+  });
+});
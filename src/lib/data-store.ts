@@ -0,0 +1,272 @@
+// Import fs, path and crypto only in server context
+const fs = typeof window === 'undefined' ? require('fs') : null;
+const path = typeof window === 'undefined' ? require('path') : null;
+const crypto = typeof window === 'undefined' ? require('crypto') : null;
+import type { CpiRecord, RentalRecord, VacancyRecord } from './cmhc';
+import { ingestCsv, ingestTable, CMHC_TABLE_ID } from './cmhc-ingest';
+import { getAppBaseUrl } from './config';
+import { parseDataFile, validateRecords, DataSchemaError, CmhcDataMetadata } from './cmhc-schema';
+import { buildGeographyTable, Geography } from './geography';
+import { getCurrentDataFilePath, getCurrentSnapshotId } from './snapshots';
+
+/**
+ * The in-process store of the published dataset that every lookup and API route reads.
+ * On the server the store follows the current snapshot pointer: when it names
+ * another snapshot (or cmhc-data.json changes before the first snapshot), the
+ * next read loads the new data. Each loaded dataset has a version, a hash of
+ * its contents, that responses expose as ETag / X-Data-Version.
+ */
+
+export interface Dataset {
+  // Content hash of the dataset; unchanged when the same data is republished
+  version: string;
+  // Snapshot the data was loaded from (null for cmhc-data.json or a remote source)
+  snapshot: string | null;
+  // Null when the data did not come from a data file (live table fallback)
+  metadata: CmhcDataMetadata | null;
+  data: RentalRecord[];
+  geographies: Geography[];
+  vacancy: VacancyRecord[];
+  // Monthly CPI for rented accommodation by province
+  cpi: CpiRecord[];
+}
+
+interface StoreEntry {
+  // Where the dataset came from, e.g. snapshot:<id>, file:<mtime>:<size> or remote
+  source: string;
+  dataset: Dataset;
+  loadedAt: number;
+  checkedAt: number;
+}
+
+// How often the current pointer is checked for a newly published snapshot
+const SOURCE_CHECK_INTERVAL = 5000;
+
+// Data from a URL or the live table has no pointer to follow, so it is reloaded daily
+const REMOTE_DATA_TTL = 24 * 60 * 60 * 1000;
+
+const REMOTE_SOURCE = 'remote';
+
+let entry: StoreEntry | null = null;
+let loading: Promise<Dataset> | null = null;
+
+const EMPTY_DATASET: Dataset = {
+  version: 'empty',
+  snapshot: null,
+  metadata: null,
+  data: [],
+  geographies: [],
+  vacancy: [],
+  cpi: []
+};
+
+/**
+ * Hashes dataset contents into a short version string
+ */
+const computeVersion = (contents: string): string => {
+  if (crypto) {
+    return crypto.createHash('sha256').update(contents).digest('hex').slice(0, 16);
+  }
+
+  // Browser: a 32-bit FNV-1a hash is enough to tell datasets apart
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < contents.length; i++) {
+    hash ^= contents.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Identifies the published data file on disk, or null when there is none (or no filesystem)
+ */
+const getLocalSource = (): string | null => {
+  if (!fs || !path) return null;
+
+  try {
+    const snapshot = getCurrentSnapshotId();
+    if (snapshot) return `snapshot:${snapshot}`;
+
+    const filePath = getCurrentDataFilePath();
+    if (!fs.existsSync(filePath)) return null;
+
+    const stat = fs.statSync(filePath);
+    return `file:${stat.mtimeMs}:${stat.size}`;
+  } catch (error) {
+    console.warn('🔍 Could not check the published data file:', error);
+    return null;
+  }
+};
+
+/**
+ * Builds a dataset from a data file's JSON text
+ */
+const datasetFromFile = (contents: string, snapshot: string | null): Dataset => {
+  // Migrate older formats and reject malformed files instead of serving bad data
+  const file = parseDataFile(contents);
+
+  return {
+    version: computeVersion(contents),
+    snapshot,
+    metadata: file.metadata,
+    data: file.data,
+    geographies: file.geographies,
+    vacancy: file.vacancy,
+    cpi: file.cpi
+  };
+};
+
+/**
+ * Builds a dataset from bare records, with no metadata or vacancy rates
+ */
+const datasetFromRecords = (records: RentalRecord[]): Dataset => ({
+  version: computeVersion(JSON.stringify(records)),
+  snapshot: null,
+  metadata: null,
+  data: records,
+  geographies: buildGeographyTable(records),
+  vacancy: [],
+  cpi: []
+});
+
+/**
+ * Loads the dataset from the published file on disk, then the static file URL,
+ * then the Statistics Canada table itself
+ */
+const loadDataset = async (source: string): Promise<Dataset> => {
+  const isServer = typeof window === 'undefined';
+
+  if (source !== REMOTE_SOURCE) {
+    try {
+      const snapshot = getCurrentSnapshotId();
+      const dataset = datasetFromFile(fs.readFileSync(getCurrentDataFilePath(), 'utf8'), snapshot);
+      console.log(`🔍 Loaded ${dataset.data.length} records from filesystem (schema v${dataset.metadata?.schemaVersion}, version ${dataset.version})`);
+      return dataset;
+    } catch (fsError) {
+      if (fsError instanceof DataSchemaError) throw fsError;
+      console.log('🔍 Failed to load file from filesystem, trying URL fetch');
+    }
+  }
+
+  // In the browser a relative URL works; on the server it needs the deployment's base URL
+  const staticDataUrl = isServer
+    ? new URL('/data/cmhc-data.json', getAppBaseUrl()).toString()
+    : '/data/cmhc-data.json';
+
+  try {
+    console.log(`🔍 Fetching data from: ${staticDataUrl}`);
+    const staticResponse = await fetch(staticDataUrl, {
+      next: { revalidate: 86400 } // Revalidate once per day
+    });
+
+    if (staticResponse.ok) {
+      const dataset = datasetFromFile(await staticResponse.text(), null);
+      console.log(`🔍 Loaded ${dataset.data.length} records from static file`);
+      return dataset;
+    }
+  } catch (staticError) {
+    if (staticError instanceof DataSchemaError) throw staticError;
+    console.warn('🔍 Failed to load static data file:', staticError);
+  }
+
+  // On the server, read the table directly; calling our own API route would come back to this store
+  if (isServer) {
+    console.log('🔍 Falling back to the Statistics Canada table');
+    return datasetFromRecords(await ingestTable(CMHC_TABLE_ID));
+  }
+
+  console.log('🔍 Falling back to API data fetch');
+  const response = await fetch('/api/cmhc-data', {
+    next: { revalidate: 86400 }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch data from API proxy: ${response.statusText}`);
+  }
+
+  const responseData = await response.json();
+
+  // Handle both new and old API response formats
+  if (responseData.data && Array.isArray(responseData.data)) {
+    return datasetFromRecords(validateRecords(responseData.data));
+  } else if (responseData.data && typeof responseData.data === 'string') {
+    // Old format - raw CSV, run it through the shared ingestion pipeline
+    return datasetFromRecords(ingestCsv(responseData.data));
+  }
+
+  throw new Error('Invalid response format from API');
+};
+
+/**
+ * Gets the current dataset, loading it when the published data has changed.
+ * Concurrent callers share one load. A load that fails keeps serving the
+ * previous dataset; with none loaded yet, the result is an empty dataset.
+ */
+export const getDataset = async (): Promise<Dataset> => {
+  const now = Date.now();
+  if (entry && now - entry.checkedAt < SOURCE_CHECK_INTERVAL) {
+    return entry.dataset;
+  }
+
+  const source = getLocalSource() || REMOTE_SOURCE;
+  if (entry && entry.source === source && (source !== REMOTE_SOURCE || now - entry.loadedAt < REMOTE_DATA_TTL)) {
+    entry.checkedAt = now;
+    return entry.dataset;
+  }
+
+  if (!loading) {
+    loading = loadDataset(source)
+      .then(dataset => {
+        if (entry && entry.dataset.version !== dataset.version) {
+          console.log(`📢 Data changed from version ${entry.dataset.version} to ${dataset.version}`);
+        }
+        entry = { source, dataset, loadedAt: Date.now(), checkedAt: Date.now() };
+        return dataset;
+      })
+      .catch(error => {
+        // A malformed data file is a deployment problem, not an empty dataset
+        if (error instanceof DataSchemaError) throw error;
+        console.error('Error fetching rental data:', error);
+        return entry ? entry.dataset : EMPTY_DATASET;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+
+  return loading;
+};
+
+/**
+ * Gets the version of the current dataset
+ */
+export const getDataVersion = async (): Promise<string> => {
+  return (await getDataset()).version;
+};
+
+/**
+ * Drops the loaded dataset so the next read loads the published data again
+ */
+export const invalidateDataStore = () => {
+  entry = null;
+};
+
+/**
+ * Headers identifying the data version a response was built from
+ */
+export const getVersionHeaders = (version: string): Record<string, string> => ({
+  'ETag': `"${version}"`,
+  'X-Data-Version': version
+});
+
+/**
+ * Checks an If-None-Match request header against a data version
+ */
+export const matchesVersion = (ifNoneMatch: string | null, version: string): boolean => {
+  if (!ifNoneMatch) return false;
+
+  return ifNoneMatch
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .some(tag => tag === '*' || tag === `"${version}"`);
+};
@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildGeographyIndex,
+  buildGeographyTable,
+  describeGeography,
+  findGeography,
+  findProvince,
+  isWithinProvince,
+  matchGeography,
+  normalizePlaceName,
+  resolveGeography,
+  scorePlaceName,
+  suggestGeographies
+} from './geography';
+
+const ONTARIO = findProvince('ON')!;
+const QUEBEC = findProvince('QC')!;
+
+describe('describeGeography', () => {
+  it('reads the area type and provinces from the DGUID', () => {
+    expect(describeGeography('Toronto, Ontario', '2021S0503535')).toEqual({
+      dguid: '2021S0503535',
+      name: 'Toronto',
+      geo: 'Toronto, Ontario',
+      type: 'cma',
+      provinces: ['Ontario']
+    });
+    expect(describeGeography('Ontario', '2021A000235')).toMatchObject({ type: 'province', provinces: ['Ontario'] });
+    expect(describeGeography('Belleville, Ontario', '2021S0503522')).toMatchObject({ type: 'cma' });
+    expect(describeGeography('Cobourg, Ontario', '2021S0503527')).toMatchObject({ type: 'ca' });
+  });
+
+  it('links the provincial part of a cross-border area to the whole', () => {
+    expect(describeGeography('Ottawa-Gatineau, Ontario part, Ontario/Quebec', '2021S050435505')).toEqual({
+      dguid: '2021S050435505',
+      name: 'Ottawa-Gatineau',
+      geo: 'Ottawa-Gatineau, Ontario part, Ontario/Quebec',
+      type: 'cma-part',
+      provinces: ['Ontario'],
+      parentDguid: '2021S0503505'
+    });
+    expect(describeGeography('Ottawa-Gatineau, Ontario/Quebec', '2021S0503505').provinces).toEqual(['Ontario', 'Quebec']);
+  });
+
+  it('falls back to the GEO label without a DGUID', () => {
+    expect(describeGeography('Ottawa-Gatineau, Quebec part, Ontario/Quebec')).toMatchObject({
+      dguid: 'legacy:Ottawa-Gatineau, Quebec part, Ontario/Quebec',
+      type: 'cma-part',
+      provinces: ['Quebec'],
+      parentDguid: 'legacy:Ottawa-Gatineau, Ontario/Quebec'
+    });
+    expect(describeGeography('Kingston, Ontario')).toMatchObject({ dguid: 'legacy:Kingston, Ontario', type: 'cma' });
+  });
+});
+
+describe('findProvince', () => {
+  it('finds a province by its abbreviation', () => {
+    expect(findProvince(' bc ')).toEqual({ code: 'BC', name: 'British Columbia', sgc: '59' });
+    expect(findProvince('XX')).toBeUndefined();
+  });
+});
+
+describe('isWithinProvince', () => {
+  it('takes only areas wholly in the province', () => {
+    expect(isWithinProvince(describeGeography('Toronto, Ontario', '2021S0503535'), ONTARIO)).toBe(true);
+    expect(isWithinProvince(describeGeography('Ottawa-Gatineau, Ontario/Quebec', '2021S0503505'), ONTARIO)).toBe(false);
+    expect(isWithinProvince(describeGeography('Vancouver, British Columbia', '2021S0503933'), ONTARIO)).toBe(false);
+  });
+});
+
+describe('buildGeographyTable', () => {
+  it('has one entry per area, sorted by name', () => {
+    const table = buildGeographyTable([
+      { GEO: 'Toronto, Ontario', DGUID: '2021S0503535' },
+      { GEO: 'Kingston, Ontario', DGUID: '2021S0503521' },
+      { GEO: 'Toronto, Ontario', DGUID: '2021S0503535' }
+    ]);
+
+    expect(table.map(geography => geography.name)).toEqual(['Kingston', 'Toronto']);
+  });
+});
+
+describe('findGeography', () => {
+  const geographies = buildGeographyTable([
+    { GEO: 'Ottawa-Gatineau, Ontario part, Ontario/Quebec', DGUID: '2021S050435505' },
+    { GEO: 'Ottawa-Gatineau, Quebec part, Ontario/Quebec', DGUID: '2021S050424505' },
+    { GEO: 'St. Catharines-Niagara, Ontario', DGUID: '2021S0503539' },
+    { GEO: 'Kitchener-Cambridge-Waterloo, Ontario', DGUID: '2021S0503541' }
+  ]);
+
+  it('resolves to the part of a cross-border area in the province', () => {
+    expect(findGeography(geographies, 'Ottawa-Gatineau')?.dguid).toBe('2021S050435505');
+    expect(findGeography(geographies, 'Ottawa-Gatineau', QUEBEC)?.dguid).toBe('2021S050424505');
+  });
+
+  it('matches spelling variations and partial names', () => {
+    expect(findGeography(geographies, 'Saint Catharines-Niagara')?.dguid).toBe('2021S0503539');
+    expect(findGeography(geographies, 'kitchener')?.dguid).toBe('2021S0503541');
+  });
+
+  it('finds nothing for an unknown or empty name', () => {
+    expect(findGeography(geographies, 'Montreal')).toBeUndefined();
+    expect(findGeography(geographies, 'Kitchener', QUEBEC)).toBeUndefined();
+    expect(findGeography(geographies, ' ')).toBeUndefined();
+  });
+});
+
+describe('normalizePlaceName', () => {
+  it('drops accents, punctuation and the spelling of Saint', () => {
+    expect(normalizePlaceName('Montréal')).toBe('montreal');
+    expect(normalizePlaceName('St. Catharines-Niagara')).toBe('st catharines niagara');
+    expect(normalizePlaceName('Saint Catharines')).toBe('st catharines');
+    expect(normalizePlaceName('Sault Ste. Marie')).toBe('sault ste marie');
+  });
+});
+
+describe('scorePlaceName', () => {
+  it('ranks exact names over whole words, prefixes and close spellings', () => {
+    expect(scorePlaceName('toronto', 'toronto')).toBe(1);
+    expect(scorePlaceName('niagara', 'st catharines niagara')).toBe(0.9);
+    expect(scorePlaceName('kitch', 'kitchener cambridge waterloo')).toBe(0.85);
+    expect(scorePlaceName('sarnia lambton', 'sarnia')).toBe(0.8);
+    expect(scorePlaceName('torontoo', 'toronto')).toBeCloseTo(0.875);
+    expect(scorePlaceName('', 'toronto')).toBe(0);
+  });
+});
+
+describe('resolveGeography', () => {
+  const index = buildGeographyIndex(buildGeographyTable([
+    { GEO: 'Toronto, Ontario', DGUID: '2021S0503535' },
+    { GEO: 'Kitchener-Cambridge-Waterloo, Ontario', DGUID: '2021S0503541' },
+    { GEO: 'St. Catharines-Niagara, Ontario', DGUID: '2021S0503539' },
+    { GEO: 'Greater Sudbury, Ontario', DGUID: '2021S0503580' },
+    { GEO: 'Kingston, Ontario', DGUID: '2021S0503521' },
+    { GEO: 'Ottawa-Gatineau, Ontario part, Ontario/Quebec', DGUID: '2021S050435505' },
+    { GEO: 'Ottawa-Gatineau, Quebec part, Ontario/Quebec', DGUID: '2021S050424505' }
+  ]));
+
+  it('resolves names, GEO labels and spelling variations', () => {
+    expect(resolveGeography(index, 'toronto')?.dguid).toBe('2021S0503535');
+    expect(resolveGeography(index, 'Toronto, Ontario')?.dguid).toBe('2021S0503535');
+    expect(resolveGeography(index, 'Saint Catharines-Niagara')?.dguid).toBe('2021S0503539');
+  });
+
+  it('resolves municipalities through the alias table', () => {
+    expect(resolveGeography(index, 'Mississauga')?.name).toBe('Toronto');
+    expect(resolveGeography(index, 'waterloo')?.name).toBe('Kitchener-Cambridge-Waterloo');
+    expect(resolveGeography(index, 'Sudbury')?.name).toBe('Greater Sudbury');
+    expect(resolveGeography(index, 'Niagara Falls')?.name).toBe('St. Catharines-Niagara');
+    expect(resolveGeography(index, 'Gatineau', QUEBEC)?.dguid).toBe('2021S050424505');
+  });
+
+  it('resolves a strong, unambiguous misspelling', () => {
+    expect(resolveGeography(index, 'Torontoo')?.name).toBe('Toronto');
+    expect(resolveGeography(index, 'Kingstn')?.name).toBe('Kingston');
+  });
+
+  it('resolves nothing rather than guessing', () => {
+    expect(resolveGeography(index, 'Timbuktu')).toBeUndefined();
+    expect(resolveGeography(index, 'Laval')).toBeUndefined();
+    expect(resolveGeography(index, ' ')).toBeUndefined();
+  });
+
+  it('does not place a town of another province in the local part of a cross-border area', () => {
+    expect(resolveGeography(index, 'Gatineau')).toBeUndefined();
+    expect(suggestGeographies(index, 'Gatineau')).toEqual([]);
+    expect(resolveGeography(index, 'Ottawa-Gatineau')?.dguid).toBe('2021S050435505');
+  });
+
+  it('suggests the closest areas, best first', () => {
+    const suggestions = suggestGeographies(index, 'Kingstown');
+
+    expect(suggestions[0]).toMatchObject({ geography: { name: 'Kingston' } });
+    expect(suggestions.every(suggestion => suggestion.score >= 0.6)).toBe(true);
+    expect(suggestGeographies(index, 'Timbuktu')).toEqual([]);
+  });
+});
+
+describe('matchGeography', () => {
+  const index = buildGeographyIndex(buildGeographyTable([
+    { GEO: 'Toronto, Ontario', DGUID: '2021S0503535' },
+    { GEO: 'Hamilton, Ontario', DGUID: '2021S0503537' },
+    { GEO: 'Kingston, Ontario', DGUID: '2021S0503521' }
+  ]));
+
+  it('reports how the city was matched', () => {
+    expect(matchGeography(index, 'Toronto')).toMatchObject({ geography: { name: 'Toronto' }, matchedBy: 'name' });
+    expect(matchGeography(index, 'Mississauga')).toMatchObject({ geography: { name: 'Toronto' }, matchedBy: 'municipality' });
+    expect(matchGeography(index, 'Stoney Creek')).toMatchObject({ geography: { name: 'Hamilton' }, matchedBy: 'alias' });
+    expect(matchGeography(index, 'Kingstn')).toMatchObject({ geography: { name: 'Kingston' }, matchedBy: 'fuzzy' });
+  });
+
+  it('ignores municipalities whose market is not in the data', () => {
+    expect(matchGeography(index, 'Kitchener')).toBeUndefined();
+  });
+});
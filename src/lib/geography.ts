@@ -0,0 +1,486 @@
+import { CENSUS_SUBDIVISIONS } from './census-subdivisions';
+import { CITY_ALIASES } from './city-aliases';
+
+/**
+ * Canonical geography model for the CMHC tables.
+ * Each area is keyed by its Statistics Canada DGUID and records its type
+ * (province, CMA, CA or the provincial part of one) and parent, so lookups
+ * resolve to exactly one area instead of substring matching on GEO.
+ *
+ * DGUIDs look like "2021S0503535": vintage (2021), type (A = administrative,
+ * S = statistical), schema (0503 = CMA/CA, 0504 = CMA/CA part, 0002 =
+ * province) and the area's unique id.
+ */
+
+export type GeographyType = 'country' | 'province' | 'cma' | 'ca' | 'cma-part' | 'ca-part';
+
+export interface Geography {
+  dguid: string;
+  // Area name without the province suffix, e.g. "Ottawa-Gatineau"
+  name: string;
+  // GEO label as published, e.g. "Ottawa-Gatineau, Ontario part, Ontario/Quebec"
+  geo: string;
+  type: GeographyType;
+  // Provinces the area covers
+  provinces: string[];
+  parentDguid?: string;
+}
+
+export const GEOGRAPHY_TYPES: GeographyType[] = ['country', 'province', 'cma', 'ca', 'cma-part', 'ca-part'];
+
+export interface Province {
+  // Postal abbreviation, e.g. "ON"
+  code: string;
+  // Name as used in StatCan GEO labels
+  name: string;
+  // Standard Geographical Classification code used in DGUIDs
+  sgc: string;
+}
+
+export const PROVINCES: Province[] = [
+  { code: 'NL', name: 'Newfoundland and Labrador', sgc: '10' },
+  { code: 'PE', name: 'Prince Edward Island', sgc: '11' },
+  { code: 'NS', name: 'Nova Scotia', sgc: '12' },
+  { code: 'NB', name: 'New Brunswick', sgc: '13' },
+  { code: 'QC', name: 'Quebec', sgc: '24' },
+  { code: 'ON', name: 'Ontario', sgc: '35' },
+  { code: 'MB', name: 'Manitoba', sgc: '46' },
+  { code: 'SK', name: 'Saskatchewan', sgc: '47' },
+  { code: 'AB', name: 'Alberta', sgc: '48' },
+  { code: 'BC', name: 'British Columbia', sgc: '59' },
+  { code: 'YT', name: 'Yukon', sgc: '60' },
+  { code: 'NT', name: 'Northwest Territories', sgc: '61' },
+  { code: 'NU', name: 'Nunavut', sgc: '62' }
+];
+
+// Province used when a request does not name one
+export const DEFAULT_PROVINCE = 'ON';
+
+// Province names keyed by the SGC codes used in DGUIDs
+const PROVINCE_CODES: Record<string, string> = Object.fromEntries(PROVINCES.map(p => [p.sgc, p.name]));
+
+const PROVINCE_NAMES = PROVINCES.map(p => p.name);
+
+/**
+ * Finds a province by its postal abbreviation (case-insensitive)
+ */
+export const findProvince = (code: string): Province | undefined => {
+  const upper = code.trim().toUpperCase();
+  return PROVINCES.find(p => p.code === upper);
+};
+
+// Census metropolitan areas (2021); every other 0503 area is a census agglomeration
+const CMA_CODES: Record<string, string> = {
+  '001': "St. John's", '205': 'Halifax', '305': 'Moncton', '310': 'Saint John',
+  '320': 'Fredericton', '408': 'Saguenay', '421': 'Québec', '433': 'Sherbrooke',
+  '442': 'Trois-Rivières', '447': 'Drummondville', '462': 'Montréal',
+  '505': 'Ottawa-Gatineau', '521': 'Kingston', '522': 'Belleville - Quinte West',
+  '529': 'Peterborough', '532': 'Oshawa', '535': 'Toronto', '537': 'Hamilton',
+  '539': 'St. Catharines-Niagara', '541': 'Kitchener-Cambridge-Waterloo',
+  '543': 'Brantford', '550': 'Guelph', '555': 'London', '559': 'Windsor',
+  '568': 'Barrie', '580': 'Greater Sudbury', '595': 'Thunder Bay',
+  '602': 'Winnipeg', '705': 'Regina', '725': 'Saskatoon', '810': 'Lethbridge',
+  '825': 'Calgary', '830': 'Red Deer', '835': 'Edmonton', '915': 'Kelowna',
+  '925': 'Kamloops', '930': 'Chilliwack', '932': 'Abbotsford-Mission',
+  '933': 'Vancouver', '935': 'Victoria', '938': 'Nanaimo'
+};
+
+const CMA_NAMES = new Set(Object.keys(CMA_CODES).map(code => CMA_CODES[code].toLowerCase()));
+
+/**
+ * Key used for areas published without a DGUID (data files from before DGUIDs were kept)
+ */
+export const legacyGeographyKey = (geo: string): string => `legacy:${geo}`;
+
+/**
+ * Describes an area from its GEO label and, when available, its DGUID
+ */
+export const describeGeography = (geo: string, dguid?: string): Geography => {
+  const parts = geo.split(',').map(part => part.trim());
+  const name = parts[0];
+  const partMatch = parts.length >= 3 ? parts[1].match(/^(.+) part$/) : null;
+
+  const dguidMatch = dguid ? dguid.match(/^(\d{4})([AS])(\d{4})(\d+)$/) : null;
+  if (dguid && dguidMatch) {
+    const [, vintage, , schema, uid] = dguidMatch;
+
+    if (schema === '0000') {
+      return { dguid, name, geo, type: 'country', provinces: [...PROVINCE_NAMES] };
+    }
+
+    if (schema === '0002') {
+      return { dguid, name, geo, type: 'province', provinces: [PROVINCE_CODES[uid] || name] };
+    }
+
+    if (schema === '0504' && uid.length === 5) {
+      // Provincial part of a CMA/CA: province code followed by the CMA/CA code
+      const provinceCode = uid.slice(0, 2);
+      const cmaCode = uid.slice(2);
+      return {
+        dguid,
+        name,
+        geo,
+        type: CMA_CODES[cmaCode] ? 'cma-part' : 'ca-part',
+        provinces: [PROVINCE_CODES[provinceCode] || (partMatch ? partMatch[1] : name)],
+        parentDguid: `${vintage}S0503${cmaCode}`
+      };
+    }
+
+    if (schema === '0503') {
+      return {
+        dguid,
+        name,
+        geo,
+        type: CMA_CODES[uid] ? 'cma' : 'ca',
+        provinces: parts.length > 1 ? parts[parts.length - 1].split('/') : []
+      };
+    }
+  }
+
+  // No usable DGUID: fall back to reading the GEO label
+  const key = dguid || legacyGeographyKey(geo);
+  const isCma = CMA_NAMES.has(name.toLowerCase());
+
+  if (parts.length === 1) {
+    if (name === 'Canada') return { dguid: key, name, geo, type: 'country', provinces: [...PROVINCE_NAMES] };
+    if (PROVINCE_NAMES.includes(name)) return { dguid: key, name, geo, type: 'province', provinces: [name] };
+  }
+
+  if (partMatch) {
+    return {
+      dguid: key,
+      name,
+      geo,
+      type: isCma ? 'cma-part' : 'ca-part',
+      provinces: [partMatch[1]],
+      parentDguid: legacyGeographyKey(`${name}, ${parts.slice(2).join(', ')}`)
+    };
+  }
+
+  return {
+    dguid: key,
+    name,
+    geo,
+    type: isCma ? 'cma' : 'ca',
+    provinces: parts.length > 1 ? parts[parts.length - 1].split('/') : []
+  };
+};
+
+/**
+ * Checks whether an area lies entirely within a province (so a cross-border
+ * CMA counts only through its part in that province)
+ */
+export const isWithinProvince = (geography: Geography, province: Province): boolean => {
+  return geography.provinces.length === 1 && geography.provinces[0] === province.name;
+};
+
+/**
+ * Builds the geography table for a set of records, one entry per DGUID
+ */
+export const buildGeographyTable = (records: { GEO: string, DGUID?: string }[]): Geography[] => {
+  const table = new Map<string, Geography>();
+
+  for (const record of records) {
+    const key = record.DGUID || legacyGeographyKey(record.GEO);
+    if (!table.has(key)) {
+      table.set(key, describeGeography(record.GEO, record.DGUID));
+    }
+  }
+
+  return Array.from(table.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Generates common spelling variations of an area name (St./Saint, hyphens)
+ */
+const nameVariations = (city: string): string[] => {
+  const variations = [city];
+
+  // Replace St. with Saint and vice versa
+  if (city.match(/\bst\b|\bst\./i)) {
+    variations.push(city.replace(/\bst\b\.?/i, 'Saint'));
+  } else if (city.match(/\bsaint\b/i)) {
+    variations.push(city.replace(/\bsaint\b/i, 'St.'));
+  }
+
+  // Try with/without hyphens
+  if (city.includes('-')) {
+    variations.push(city.replace(/-/g, ' '));
+  } else if (city.includes(' ')) {
+    variations.push(city.replace(/\s+/g, '-'));
+  }
+
+  return variations.map(variation => variation.toLowerCase());
+};
+
+/**
+ * Resolves a city name to a single area in a province: exact name, published
+ * GEO label, spelling variations, then the first area whose name contains it
+ */
+export const findGeography = (
+  geographies: Geography[],
+  city: string,
+  province: Province = findProvince(DEFAULT_PROVINCE)!
+): Geography | undefined => {
+  const query = city.trim().toLowerCase();
+  if (!query) return undefined;
+
+  const candidates = geographies.filter(g => g.type !== 'province' && g.type !== 'country' && isWithinProvince(g, province));
+
+  const exact = candidates.find(g => g.name.toLowerCase() === query || g.geo.toLowerCase() === query);
+  if (exact) return exact;
+
+  const variations = nameVariations(city.trim());
+  const variation = candidates.find(g => variations.includes(g.name.toLowerCase()));
+  if (variation) return variation;
+
+  return candidates.find(g => g.name.toLowerCase().includes(query));
+};
+
+interface IndexedArea {
+  geography: Geography;
+  // Position among the province's areas, so ties resolve like findGeography
+  position: number;
+}
+
+/**
+ * Normalizes a place name for fuzzy comparison: lowercase, no accents,
+ * "Saint" spelled "st", punctuation and hyphens as single spaces
+ */
+export const normalizePlaceName = (name: string): string => {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\bsaint\b|\bste?\b\.?/g, match => match.startsWith('ste') ? 'ste' : 'st')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+/**
+ * Edit distance between two strings (insertions, deletions and substitutions)
+ */
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string): number => {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+};
+
+/**
+ * Scores how well a normalized query matches a normalized name, from 0 to 1:
+ * 1 for the same name, 0.9 when the query is whole words of the name
+ * ("niagara" in "st catharines niagara"), 0.85 for a prefix of at least three
+ * letters, 0.8 when the name is whole words of the query ("sarnia" in
+ * "sarnia lambton"), otherwise the spelling similarity to the name or its closest word
+ */
+export const scorePlaceName = (query: string, name: string): number => {
+  if (!query || !name) return 0;
+  if (query === name) return 1;
+
+  if (` ${name} `.includes(` ${query} `)) return 0.9;
+  if (query.length >= 3 && name.startsWith(query)) return 0.85;
+  if (` ${query} `.includes(` ${name} `)) return 0.8;
+
+  const words = name.split(' ');
+  const closestWord = Math.max(...words.map(word => similarity(query, word)));
+  return Math.max(similarity(query, name), words.length > 1 ? closestWord * 0.9 : 0);
+};
+
+// A fuzzy match resolves a city only when it scores this high...
+const FUZZY_MATCH_THRESHOLD = 0.8;
+// ...and clearly beats the runner-up
+const FUZZY_MATCH_MARGIN = 0.05;
+
+// Suggestions must score at least this high
+const SUGGESTION_THRESHOLD = 0.6;
+
+/**
+ * Areas of a geography table grouped by province, with lookup maps of their
+ * lowercased names and GEO labels and of the municipalities and curated aliases that point at them
+ */
+export interface GeographyIndex {
+  byProvince: Map<string, {
+    areas: Geography[];
+    names: Map<string, IndexedArea>;
+    geos: Map<string, IndexedArea>;
+    // Normalized municipality, alias and area names, for lookups and fuzzy ranking
+    municipalities: Map<string, IndexedArea>;
+    aliases: Map<string, IndexedArea>;
+    // Normalized municipalities and aliases recorded for other provinces only, e.g. Gatineau outside Quebec
+    elsewhere: Set<string>;
+    normalizedNames: string[];
+  }>;
+}
+
+// How a city name was resolved: the area's own name, a municipality inside it, an alias or a fuzzy match
+export type GeographyMatchType = 'name' | 'municipality' | 'alias' | 'fuzzy';
+
+export interface GeographyMatch {
+  geography: Geography;
+  matchedBy: GeographyMatchType;
+}
+
+export interface GeographySuggestion {
+  geography: Geography;
+  score: number;
+}
+
+/**
+ * Indexes a geography table for repeated city lookups with resolveGeography
+ */
+export const buildGeographyIndex = (geographies: Geography[]): GeographyIndex => {
+  const byProvince: GeographyIndex['byProvince'] = new Map();
+
+  for (const province of PROVINCES) {
+    const areas = geographies.filter(g => g.type !== 'province' && g.type !== 'country' && isWithinProvince(g, province));
+    const names = new Map<string, IndexedArea>();
+    const geos = new Map<string, IndexedArea>();
+
+    areas.forEach((geography, position) => {
+      const name = geography.name.toLowerCase();
+      const geo = geography.geo.toLowerCase();
+      if (!names.has(name)) names.set(name, { geography, position });
+      if (!geos.has(geo)) geos.set(geo, { geography, position });
+    });
+
+    // Municipalities and aliases point at an area by name; those whose area is not in this data are left out
+    const normalizedNames = areas.map(geography => normalizePlaceName(geography.name));
+    const pointers = (entries: { name: string, area: string }[]): Map<string, IndexedArea> => {
+      const map = new Map<string, IndexedArea>();
+      for (const { name, area } of entries) {
+        const position = normalizedNames.indexOf(normalizePlaceName(area));
+        if (position !== -1 && !map.has(normalizePlaceName(name))) {
+          map.set(normalizePlaceName(name), { geography: areas[position], position });
+        }
+      }
+      return map;
+    };
+
+    const municipalities = pointers(CENSUS_SUBDIVISIONS
+      .filter(entry => entry.province === province.code)
+      .map(entry => ({ name: entry.name, area: entry.market })));
+    const aliases = pointers(CITY_ALIASES
+      .filter(entry => entry.province === province.code)
+      .map(entry => ({ name: entry.alias, area: entry.area })));
+
+    // Places in other provinces must not fuzzy-match this province's part of a cross-border area
+    const elsewhere = new Set([
+      ...CENSUS_SUBDIVISIONS.filter(entry => entry.province !== province.code).map(entry => normalizePlaceName(entry.name)),
+      ...CITY_ALIASES.filter(entry => entry.province !== province.code).map(entry => normalizePlaceName(entry.alias))
+    ].filter(name => !normalizedNames.includes(name) && !municipalities.has(name) && !aliases.has(name)));
+
+    byProvince.set(province.code, { areas, names, geos, municipalities, aliases, elsewhere, normalizedNames });
+  }
+
+  return { byProvince };
+};
+
+/**
+ * Ranks a province's areas by how well their names, or the municipalities and
+ * aliases pointing at them, match a city name; best first, without areas below the suggestion threshold.
+ * A place known to lie in another province gets no suggestions
+ */
+export const suggestGeographies = (
+  index: GeographyIndex,
+  city: string,
+  province: Province = findProvince(DEFAULT_PROVINCE)!,
+  limit = 5
+): GeographySuggestion[] => {
+  const query = normalizePlaceName(city);
+  const entry = index.byProvince.get(province.code);
+  if (!query || !entry || entry.elsewhere.has(query)) return [];
+
+  const scores = new Map<Geography, number>();
+  const consider = (geography: Geography, score: number) => {
+    if (score > (scores.get(geography) ?? 0)) scores.set(geography, score);
+  };
+
+  entry.areas.forEach((geography, position) => consider(geography, scorePlaceName(query, entry.normalizedNames[position])));
+  // A municipality or alias stands for part of an area, so a whole match counts a little less than the area's own name
+  entry.municipalities.forEach(({ geography }, municipality) => consider(geography, scorePlaceName(query, municipality) * 0.98));
+  entry.aliases.forEach(({ geography }, alias) => consider(geography, scorePlaceName(query, alias) * 0.98));
+
+  return Array.from(scores.entries())
+    .map(([geography, score]) => ({ geography, score: Math.round(score * 1000) / 1000 }))
+    .filter(suggestion => suggestion.score >= SUGGESTION_THRESHOLD)
+    .sort((a, b) => b.score - a.score || a.geography.name.localeCompare(b.geography.name))
+    .slice(0, limit);
+};
+
+/**
+ * Resolves a city name through a geography index: exact name or GEO label,
+ * spelling variations, a municipality inside the area, a curated alias, then
+ * the best fuzzy match when it is strong and unambiguous. Anything weaker
+ * resolves to nothing rather than a guess.
+ */
+export const matchGeography = (
+  index: GeographyIndex,
+  city: string,
+  province: Province = findProvince(DEFAULT_PROVINCE)!
+): GeographyMatch | undefined => {
+  const query = city.trim().toLowerCase();
+  const entry = index.byProvince.get(province.code);
+  if (!query || !entry) return undefined;
+
+  // The earliest area among the matches wins, as with a linear scan
+  const earliest = (matches: (IndexedArea | undefined)[]): Geography | undefined => {
+    const found = matches.filter((match): match is IndexedArea => match !== undefined);
+    if (found.length === 0) return undefined;
+    return found.reduce((best, match) => match.position < best.position ? match : best).geography;
+  };
+
+  const exact = earliest([entry.names.get(query), entry.geos.get(query)]);
+  if (exact) return { geography: exact, matchedBy: 'name' };
+
+  const variation = earliest(nameVariations(city.trim()).map(name => entry.names.get(name)));
+  if (variation) return { geography: variation, matchedBy: 'name' };
+
+  // Accents and punctuation aside, an area's own name comes before any municipality or alias
+  const normalized = normalizePlaceName(city);
+  const position = entry.normalizedNames.indexOf(normalized);
+  if (position !== -1) return { geography: entry.areas[position], matchedBy: 'name' };
+
+  const municipality = entry.municipalities.get(normalized);
+  if (municipality) return { geography: municipality.geography, matchedBy: 'municipality' };
+
+  const alias = entry.aliases.get(normalized);
+  if (alias) return { geography: alias.geography, matchedBy: 'alias' };
+
+  // A place known to lie in another province is not guessed at here (Gatineau is not Ottawa's Ontario part)
+  if (entry.elsewhere.has(normalized)) return undefined;
+
+  const [best, runnerUp] = suggestGeographies(index, city, province, 2);
+  if (best && best.score >= FUZZY_MATCH_THRESHOLD && (!runnerUp || best.score - runnerUp.score >= FUZZY_MATCH_MARGIN)) {
+    return { geography: best.geography, matchedBy: 'fuzzy' };
+  }
+
+  return undefined;
+};
+
+/**
+ * Resolves a city name to a single area through a geography index (see matchGeography)
+ */
+export const resolveGeography = (
+  index: GeographyIndex,
+  city: string,
+  province: Province = findProvince(DEFAULT_PROVINCE)!
+): Geography | undefined => {
+  return matchGeography(index, city, province)?.geography;
+};
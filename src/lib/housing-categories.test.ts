@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findHousingCategory,
+  getCategoryDepth,
+  getCategoryLineage,
+  mapStructureTypeToCategory,
+  sortCategories,
+  ALL_CATEGORY
+} from './housing-categories';
+
+describe('mapStructureTypeToCategory', () => {
+  it('maps each published structure type to its category', () => {
+    expect(mapStructureTypeToCategory('Row and apartment structures of three units and over')).toBe(ALL_CATEGORY);
+    expect(mapStructureTypeToCategory('Row structures of three units and over')).toBe('Townhouse');
+    expect(mapStructureTypeToCategory('Apartment structures of three units and over')).toBe('Apartment');
+    expect(mapStructureTypeToCategory('Apartment structures of six units and over')).toBe('Apartment (6+ units)');
+    expect(mapStructureTypeToCategory('Single-detached houses')).toBe('');
+  });
+});
+
+describe('findHousingCategory', () => {
+  it('accepts current and former names in any case', () => {
+    expect(findHousingCategory(' townhouse ')?.name).toBe('Townhouse');
+    expect(findHousingCategory('Multi-Plex')?.name).toBe(ALL_CATEGORY);
+    expect(findHousingCategory('highrise')?.name).toBe('Apartment (6+ units)');
+    expect(findHousingCategory('Condo')).toBeUndefined();
+  });
+});
+
+describe('getCategoryLineage', () => {
+  it('walks up to All', () => {
+    expect(getCategoryLineage('Apartment (6+ units)')).toEqual(['Apartment (6+ units)', 'Apartment', ALL_CATEGORY]);
+    expect(getCategoryLineage('Townhouse')).toEqual(['Townhouse', ALL_CATEGORY]);
+    expect(getCategoryLineage()).toEqual([ALL_CATEGORY]);
+    expect(getCategoryLineage('Condo')).toEqual([ALL_CATEGORY]);
+  });
+
+  it('gives the nesting depth', () => {
+    expect(getCategoryDepth(ALL_CATEGORY)).toBe(0);
+    expect(getCategoryDepth('Apartment (6+ units)')).toBe(2);
+  });
+});
+
+describe('sortCategories', () => {
+  it('puts parents first and unknown names last', () => {
+    expect(sortCategories(['Uncategorized', 'Apartment (6+ units)', 'Townhouse', ALL_CATEGORY, 'Apartment']))
+      .toEqual([ALL_CATEGORY, 'Townhouse', 'Apartment', 'Apartment (6+ units)', 'Uncategorized']);
+  });
+});
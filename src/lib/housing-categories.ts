@@ -0,0 +1,104 @@
+/**
+ * Housing categories and how they nest. The CMHC rent table publishes one
+ * total row ("Row and apartment structures of three units and over") and rows
+ * for subsets of it: row houses, apartments, and apartments in structures of six
+ * units and over, which are themselves a subset of the apartment row. Rents of
+ * a category and its subcategories overlap, so they are never averaged together.
+ */
+
+export interface HousingCategory {
+  name: string;
+  // CMHC structure type whose rents the category reports
+  structureType: string;
+  description: string;
+  // Category this one is a subset of; only "All" has none
+  parent?: string;
+  // Names earlier versions used for the same row, still accepted in requests
+  formerNames?: string[];
+}
+
+// The total row: every structure type together
+export const ALL_CATEGORY = 'All';
+
+// Parents come before their subcategories
+export const HOUSING_CATEGORIES: HousingCategory[] = [
+  {
+    name: ALL_CATEGORY,
+    structureType: 'Row and apartment structures of three units and over',
+    description: 'Every purpose-built rental unit surveyed: row houses and apartments in structures of three or more units',
+    formerNames: ['Multi-Plex']
+  },
+  {
+    name: 'Townhouse',
+    structureType: 'Row structures of three units and over',
+    description: 'Row houses sharing walls with their neighbours, in structures of three or more units',
+    parent: ALL_CATEGORY
+  },
+  {
+    name: 'Apartment',
+    structureType: 'Apartment structures of three units and over',
+    description: 'Apartments in buildings of three or more units, from small walk-ups to towers',
+    parent: ALL_CATEGORY,
+    formerNames: ['Low-Rise']
+  },
+  {
+    name: 'Apartment (6+ units)',
+    structureType: 'Apartment structures of six units and over',
+    description: 'Apartments in buildings of six or more units; excludes the smallest apartment buildings',
+    parent: 'Apartment',
+    formerNames: ['Highrise']
+  }
+];
+
+/**
+ * Maps a CMHC structure type to its housing category
+ */
+export const mapStructureTypeToCategory = (structureType: string | undefined): string => {
+  if (!structureType) return '';
+
+  const category = HOUSING_CATEGORIES.find(entry => entry.structureType === structureType);
+  return category ? category.name : '';
+};
+
+/**
+ * Finds a housing category by its name or a former name (case-insensitive)
+ */
+export const findHousingCategory = (name: string): HousingCategory | undefined => {
+  const query = name.trim().toLowerCase();
+  return HOUSING_CATEGORIES.find(entry =>
+    entry.name.toLowerCase() === query ||
+    (entry.formerNames || []).some(former => former.toLowerCase() === query)
+  );
+};
+
+/**
+ * Lists a category followed by each category it is a subset of, ending with "All";
+ * just "All" when no category or an unknown one is given
+ */
+export const getCategoryLineage = (name?: string): string[] => {
+  const lineage: string[] = [];
+  let category = name ? findHousingCategory(name) : undefined;
+
+  while (category) {
+    lineage.push(category.name);
+    category = category.parent ? findHousingCategory(category.parent) : undefined;
+  }
+
+  return lineage.length > 0 ? lineage : [ALL_CATEGORY];
+};
+
+/**
+ * Counts how many categories a category is nested in (0 for "All")
+ */
+export const getCategoryDepth = (name: string): number => getCategoryLineage(name).length - 1;
+
+/**
+ * Sorts category names into the order of HOUSING_CATEGORIES, parents first
+ */
+export const sortCategories = (names: string[]): string[] => {
+  const position = (name: string) => {
+    const index = HOUSING_CATEGORIES.findIndex(entry => entry.name === name);
+    return index === -1 ? HOUSING_CATEGORIES.length : index;
+  };
+  return [...names].sort((a, b) => position(a) - position(b) || a.localeCompare(b));
+};
@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import JSZip from 'jszip';
+
+/**
+ * Local stand-in for the Statistics Canada Web Data Service (WDS).
+ * Serves getCubeMetadata and getFullTableDownloadCSV responses and table ZIPs built from the
+ * fixtures in src/lib/fixtures/wds, so ingestion runs with no network.
+ * Point STATCAN_WDS_BASE_URL at the returned baseUrl to use it.
+ */
+
+export type MockWdsScenario =
+  | 'success'        // Normal response with a data CSV and a metadata CSV
+  | 'failed-status'  // WDS answers with a non-SUCCESS status
+  | 'no-csv'         // The ZIP contains no CSV file
+  | 'truncated-csv'; // The data CSV is cut off mid-row
+
+export const MOCK_WDS_SCENARIOS: MockWdsScenario[] = ['success', 'failed-status', 'no-csv', 'truncated-csv'];
+
+export interface MockWdsServer {
+  baseUrl: string;
+  // Number of table ZIPs served, to check whether a refresh downloaded anything
+  stats: { zipDownloads: number };
+  close: () => Promise<void>;
+}
+
+// Release time reported by getCubeMetadata unless overridden
+export const MOCK_RELEASE_TIME = '2025-01-27T08:30';
+
+// Fixture files are named <tableId>.csv, with <tableId>-truncated.csv for the truncated scenario
+const FIXTURE_DIR = path.join(process.cwd(), 'src', 'lib', 'fixtures', 'wds');
+
+/**
+ * Builds the table ZIP for a scenario, or null when there is no fixture for the table
+ */
+const buildTableZip = async (tableId: string, scenario: MockWdsScenario): Promise<Buffer | null> => {
+  const fixtureName = scenario === 'truncated-csv' ? `${tableId}-truncated.csv` : `${tableId}.csv`;
+  const fixturePath = path.join(FIXTURE_DIR, fixtureName);
+
+  if (!fs.existsSync(fixturePath)) return null;
+
+  const zip = new JSZip();
+
+  if (scenario === 'no-csv') {
+    zip.file(`${tableId}_README.txt`, 'Table data is temporarily unavailable.');
+  } else {
+    zip.file(`${tableId}.csv`, fs.readFileSync(fixturePath));
+    zip.file(`${tableId}_MetaData.csv`, `"Cube Title","Product Id"\n"Mock table","${tableId}"\n`);
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer' });
+};
+
+/**
+ * Sends a JSON response
+ */
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Starts the mock WDS server; port 0 picks a free port
+ */
+export const startMockWdsServer = (
+  options: { port?: number, scenario?: MockWdsScenario, releaseTime?: string } = {}
+): Promise<MockWdsServer> => {
+  const scenario = options.scenario || 'success';
+  const stats = { zipDownloads: 0 };
+
+  const server = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const origin = `http://${req.headers.host}`;
+
+      // WDS endpoint: POST /t1/wds/rest/getCubeMetadata with [{ productId }]
+      if (url.pathname === '/t1/wds/rest/getCubeMetadata') {
+        let body = '';
+        for await (const chunk of req) body += chunk;
+        const products: { productId: number }[] = JSON.parse(body || '[]');
+
+        sendJson(res, 200, products.map(({ productId }) => scenario === 'failed-status'
+          ? { status: 'FAILED', object: 'Metadata is not available' }
+          : {
+              status: 'SUCCESS',
+              object: {
+                productId: String(productId),
+                cubeTitleEn: 'Mock table',
+                releaseTime: options.releaseTime || MOCK_RELEASE_TIME
+              }
+            }));
+        return;
+      }
+
+      // WDS endpoint: /t1/wds/rest/getFullTableDownloadCSV/{tableId}/en
+      const wdsMatch = url.pathname.match(/^\/t1\/wds\/rest\/getFullTableDownloadCSV\/(\d+)\/en$/);
+      if (wdsMatch) {
+        if (scenario === 'failed-status') {
+          sendJson(res, 200, { status: 'FAILED', object: 'Table download is not available' });
+          return;
+        }
+
+        sendJson(res, 200, { status: 'SUCCESS', object: `${origin}/n1/tbl/csv/${wdsMatch[1]}-eng.zip` });
+        return;
+      }
+
+      // Table download: /n1/tbl/csv/{tableId}-eng.zip
+      const zipMatch = url.pathname.match(/^\/n1\/tbl\/csv\/(\d+)-eng\.zip$/);
+      if (zipMatch) {
+        const zipData = await buildTableZip(zipMatch[1], scenario);
+
+        if (!zipData) {
+          sendJson(res, 404, { error: `No fixture for table ${zipMatch[1]}` });
+          return;
+        }
+
+        stats.zipDownloads++;
+        res.writeHead(200, { 'Content-Type': 'application/zip', 'Content-Length': zipData.length });
+        res.end(zipData);
+        return;
+      }
+
+      sendJson(res, 404, { error: `Unknown mock WDS path: ${url.pathname}` });
+    } catch (error) {
+      sendJson(res, 500, { error: error instanceof Error ? error.message : 'Mock WDS error' });
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port || 0, '127.0.0.1', () => {
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : options.port;
+
+      resolve({
+        baseUrl: `http://127.0.0.1:${port}/t1/wds/rest`,
+        stats,
+        close: () => new Promise<void>(done => server.close(() => done()))
+      });
+    });
+  });
+};
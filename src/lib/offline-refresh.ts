@@ -0,0 +1,188 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { startMockWdsServer, MOCK_WDS_SCENARIOS } from './mock-wds-server';
+
+/**
+ * Runs the whole refresh flow against the local mock WDS server with no network access.
+ * Writes to a temporary data directory unless CMHC_DATA_DIR is set, then checks
+ * that every failure scenario is rejected.
+ */
+const runOfflineRefresh = async () => {
+  if (!process.env.CMHC_DATA_DIR) {
+    process.env.CMHC_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'rentfair-data-'));
+  }
+  console.log(`Writing data to ${process.env.CMHC_DATA_DIR}`);
+
+  // Import after the environment is set, since the scheduler resolves its paths on load
+  const { checkForDataUpdates } = await import('./data-refresh-scheduler');
+  const { fetchStaticData } = await import('./fetch-static-data');
+  const { hasDataChanges } = await import('./data-diff');
+  const { getDataAge } = await import('./data-age');
+  const { computeRentAdjustment } = await import('./rent-adjustment');
+  const { getCurrentSnapshotId, listSnapshots, publishSnapshot, readSnapshotDiff, rollbackSnapshot } = await import('./snapshots');
+
+  let ok = true;
+
+  // Step 1: Full refresh flow against the healthy fixture
+  const server = await startMockWdsServer();
+  process.env.STATCAN_WDS_BASE_URL = server.baseUrl;
+  try {
+    const updated = await checkForDataUpdates({ trigger: 'offline' });
+    const dataFile = path.join(process.env.CMHC_DATA_DIR, 'cmhc-data.json');
+
+    if (!fs.existsSync(dataFile)) {
+      console.error('❌ Refresh did not produce a data file');
+      ok = false;
+    } else {
+      const { metadata, data, cpi } = JSON.parse(fs.readFileSync(dataFile, 'utf-8'));
+      console.log(`✅ Refresh completed (updated: ${updated}, records: ${metadata.recordCount}, vacancy rates: ${metadata.vacancyRecordCount}, release: ${metadata.releaseTime})`);
+
+      // Data age is not stored; a bare-year period is the October survey, so with the
+      // clock pinned to December of the next year it must read 14 months
+      const refDate: string | undefined = data[0] && data[0].RefDate;
+      const pinned = () => new Date(parseInt(String(refDate), 10) + 1, 11, 15);
+      const age = getDataAge(refDate, pinned);
+      if (data.some((record: Record<string, unknown>) => 'DataAge' in record) || !/^\d{4}-10-01$/.test(String(refDate)) || age !== 14) {
+        console.error(`❌ Data age is stored or wrong (reference period ${refDate}, age ${age} months with a pinned clock)`);
+        ok = false;
+      } else {
+        console.log(`✅ Data age derived at request time (reference period ${refDate} is ${age} months old on ${pinned().toDateString()})`);
+      }
+
+      // Only the rented accommodation index of the provinces and Canada is kept, and it drives the adjustment
+      const cpiAreas = Array.from(new Set((cpi || []).map((record: { GEO: string }) => record.GEO))).sort();
+      const ontario = (cpi || []).filter((record: { GEO: string }) => record.GEO === 'Ontario');
+      const adjustment = computeRentAdjustment(ontario, refDate, { annualRate: 0.05, clock: pinned });
+      if (metadata.cpiRecordCount !== ontario.length * 2 || cpiAreas.join(', ') !== 'Canada, Ontario' || !adjustment || adjustment.model !== 'cpi') {
+        console.error(`❌ Rent CPI was not ingested as expected (${metadata.cpiRecordCount} records for ${cpiAreas.join(', ') || 'no areas'}, model ${adjustment && adjustment.model})`);
+        ok = false;
+      } else {
+        console.log(`✅ Rent CPI ingested (${metadata.cpiRecordCount} monthly values); ${refDate} adjusts by x${adjustment.factor.toFixed(4)} from ${adjustment.fromMonth} to ${adjustment.toMonth}`);
+      }
+    }
+    
+    // A second check with no new StatCan release must not download the table again
+    const downloadsBefore = server.stats.zipDownloads;
+    const updatedAgain = await checkForDataUpdates({ force: true, trigger: 'offline' });
+    
+    if (updatedAgain || server.stats.zipDownloads !== downloadsBefore) {
+      console.error('❌ Second check downloaded the table although nothing was released');
+      ok = false;
+    } else {
+      console.log('✅ Second check skipped the download (no new release)');
+    }
+    
+    // A forced refresh publishes a new snapshot; rolling back must restore the previous one
+    const firstSnapshot = getCurrentSnapshotId();
+    const forced = await fetchStaticData();
+
+    // The same fixture again must produce a diff report with no changed cells
+    const diff = forced.snapshot ? readSnapshotDiff(forced.snapshot) : null;
+    if (!diff || diff.fromSnapshot !== firstSnapshot || hasDataChanges(diff.summary)) {
+      console.error(`❌ Diff report for snapshot ${forced.snapshot} is missing or not empty`);
+      ok = false;
+    } else {
+      console.log(`✅ Diff report saved (${diff.summary.unchanged} cells unchanged)`);
+    }
+
+    const pointer = rollbackSnapshot();
+    
+    if (!forced.success || forced.snapshot === firstSnapshot || pointer.snapshot !== firstSnapshot) {
+      console.error(`❌ Rollback did not restore snapshot ${firstSnapshot} (current: ${getCurrentSnapshotId()})`);
+      ok = false;
+    } else {
+      console.log(`✅ Rolled back from snapshot ${forced.snapshot} to ${pointer.snapshot}`);
+    }
+
+    // A dry run stages a snapshot without publishing it; publishing it afterwards makes it current
+    const dryRun = await fetchStaticData({ dryRun: true });
+    const staged = listSnapshots().find(snapshot => snapshot.id === dryRun.snapshot);
+    
+    if (!dryRun.success || !staged || !staged.staged || getCurrentSnapshotId() !== firstSnapshot) {
+      console.error(`❌ Dry run did not stage snapshot ${dryRun.snapshot} without publishing it`);
+      ok = false;
+    } else if (publishSnapshot(staged.id).snapshot !== staged.id || listSnapshots().some(snapshot => snapshot.staged)) {
+      console.error(`❌ Publishing staged snapshot ${staged.id} failed`);
+      ok = false;
+    } else {
+      console.log(`✅ Dry run staged snapshot ${staged.id}, then published it`);
+    }
+  } finally {
+    await server.close();
+  }
+
+  // Step 2: A refresh must not start while another process holds the lock
+  const { acquireRefreshLock, releaseRefreshLock, getLastJobs } = await import('./refresh-jobs');
+  if (!acquireRefreshLock('offline-holder')) {
+    console.error('❌ Could not take the refresh lock');
+    ok = false;
+  } else {
+    try {
+      const lockedServer = await startMockWdsServer({ releaseTime: '2025-07-01T08:30' });
+      process.env.STATCAN_WDS_BASE_URL = lockedServer.baseUrl;
+      try {
+        const updatedWhileLocked = await checkForDataUpdates({ force: true, trigger: 'offline' });
+
+        if (updatedWhileLocked || lockedServer.stats.zipDownloads > 0) {
+          console.error('❌ A refresh ran while another process held the lock');
+          ok = false;
+        } else {
+          console.log('✅ Refresh did not start while the lock was held');
+        }
+      } finally {
+        await lockedServer.close();
+      }
+    } finally {
+      releaseRefreshLock('offline-holder');
+    }
+  }
+
+  // Step 3: A failing refresh is retried, then recorded as a failed job
+  process.env.REFRESH_RETRY_ATTEMPTS = '3';
+  process.env.REFRESH_RETRY_DELAY_MS = '10';
+  const retryServer = await startMockWdsServer({ scenario: 'no-csv', releaseTime: '2025-07-01T08:30' });
+  process.env.STATCAN_WDS_BASE_URL = retryServer.baseUrl;
+  try {
+    await checkForDataUpdates({ force: true, trigger: 'offline' });
+    const { lastFailure } = getLastJobs();
+
+    if (retryServer.stats.zipDownloads !== 3 || !lastFailure || lastFailure.attempts !== 3) {
+      console.error(`❌ Failing refresh was not retried 3 times (downloads: ${retryServer.stats.zipDownloads})`);
+      ok = false;
+    } else {
+      console.log(`✅ Failing refresh retried ${lastFailure.attempts} times and recorded: ${lastFailure.error}`);
+    }
+  } finally {
+    await retryServer.close();
+  }
+
+  // Step 4: Every failure scenario must fail cleanly
+  for (const scenario of MOCK_WDS_SCENARIOS.filter(s => s !== 'success')) {
+    const failingServer = await startMockWdsServer({ scenario });
+    process.env.STATCAN_WDS_BASE_URL = failingServer.baseUrl;
+    try {
+      const result = await fetchStaticData();
+
+      if (result.success) {
+        console.error(`❌ Scenario "${scenario}" was not rejected`);
+        ok = false;
+      } else {
+        console.log(`✅ Scenario "${scenario}" rejected: ${result.error instanceof Error ? result.error.message : result.error}`);
+      }
+    } finally {
+      await failingServer.close();
+    }
+  }
+
+  return ok;
+};
+
+runOfflineRefresh()
+  .then(ok => process.exit(ok ? 0 : 1))
+  .catch(err => {
+    console.error('Offline refresh failed:', err);
+    process.exit(1);
+  });
+
+export {};
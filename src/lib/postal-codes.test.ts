@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { findFsaArea, isRuralFsa, parseFsa, ONTARIO_FSA_RANGES } from './postal-codes';
+
+describe('parseFsa', () => {
+  it('reads the FSA from full and partial postal codes', () => {
+    expect(parseFsa('m5v 2t6')).toBe('M5V');
+    expect(parseFsa('K1A-0B1')).toBe('K1A');
+    expect(parseFsa(' n2l ')).toBe('N2L');
+  });
+
+  it('rejects text that is not a postal code', () => {
+    expect(parseFsa('')).toBeNull();
+    expect(parseFsa('Toronto')).toBeNull();
+    expect(parseFsa('M5V 2T')).toBeNull();
+    // D, F, I, O, Q and U are never used
+    expect(parseFsa('D5V')).toBeNull();
+  });
+});
+
+describe('isRuralFsa', () => {
+  it('flags FSAs with a 0 in the second position', () => {
+    expect(isRuralFsa('K0A')).toBe(true);
+    expect(isRuralFsa('K1A')).toBe(false);
+  });
+});
+
+describe('findFsaArea', () => {
+  it('maps urban FSAs to their rental market area', () => {
+    expect(findFsaArea('M5V')).toBe('Toronto');
+    expect(findFsaArea('L5B')).toBe('Toronto');
+    expect(findFsaArea('K2P')).toBe('Ottawa-Gatineau');
+    expect(findFsaArea('N2L')).toBe('Kitchener-Cambridge-Waterloo');
+    expect(findFsaArea('P3E')).toBe('Greater Sudbury');
+  });
+
+  it('includes both ends of a range', () => {
+    expect(findFsaArea('L8E')).toBe('Hamilton');
+    expect(findFsaArea('L9C')).toBe('Hamilton');
+  });
+
+  it('leaves rural, unmapped and out-of-province FSAs unmapped', () => {
+    expect(findFsaArea('K0A')).toBeNull();
+    expect(findFsaArea('L9R')).toBeNull();
+    expect(findFsaArea('V6B')).toBeNull();
+  });
+
+  it('has ranges in order that do not overlap', () => {
+    ONTARIO_FSA_RANGES.forEach((range, i) => {
+      expect(range.from <= range.to).toBe(true);
+      if (i > 0) expect(ONTARIO_FSA_RANGES[i - 1].to < range.from).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Ontario forward sortation areas (FSAs, the first three characters of a
+ * postal code) mapped to the CMHC rental market area that surveys them.
+ *
+ * The table is curated by hand as ranges of urban FSAs, e.g. every FSA from
+ * L4T to L5W (Mississauga) belongs to the Toronto CMA. Rural FSAs (a 0 in the
+ * second position, like K0A) span many towns and are deliberately not mapped.
+ */
+
+export interface FsaRange {
+  // First and last FSA of the range, inclusive
+  from: string;
+  to: string;
+  // CMHC area name as used in the geography table
+  area: string;
+}
+
+// Ontario postal codes start with one of these letters
+export const ONTARIO_FSA_LETTERS = ['K', 'L', 'M', 'N', 'P'];
+
+export const ONTARIO_FSA_RANGES: FsaRange[] = [
+  // Eastern Ontario
+  { from: 'K1A', to: 'K2W', area: 'Ottawa-Gatineau' },
+  { from: 'K4A', to: 'K4P', area: 'Ottawa-Gatineau' },
+  { from: 'K6A', to: 'K6A', area: 'Hawkesbury' },
+  { from: 'K6H', to: 'K6K', area: 'Cornwall' },
+  { from: 'K6T', to: 'K6V', area: 'Brockville' },
+  { from: 'K7A', to: 'K7A', area: 'Smiths Falls' },
+  { from: 'K7K', to: 'K7P', area: 'Kingston' },
+  { from: 'K7R', to: 'K7R', area: 'Greater Napanee' },
+  { from: 'K8A', to: 'K8B', area: 'Pembroke' },
+  { from: 'K8H', to: 'K8H', area: 'Petawawa' },
+  { from: 'K8N', to: 'K8R', area: 'Belleville' },
+  { from: 'K8V', to: 'K8V', area: 'Trenton' },
+  { from: 'K9A', to: 'K9A', area: 'Cobourg' },
+  { from: 'K9H', to: 'K9L', area: 'Peterborough' },
+  { from: 'K9V', to: 'K9V', area: 'Kawartha Lakes' },
+
+  // Greater Toronto, Hamilton and Niagara
+  { from: 'L1A', to: 'L1A', area: 'Port Hope' },
+  { from: 'L1B', to: 'L1R', area: 'Oshawa' },
+  { from: 'L1S', to: 'L1Z', area: 'Toronto' },
+  { from: 'L2A', to: 'L2W', area: 'St. Catharines-Niagara' },
+  { from: 'L3B', to: 'L3C', area: 'St. Catharines-Niagara' },
+  { from: 'L3K', to: 'L3K', area: 'St. Catharines-Niagara' },
+  { from: 'L3M', to: 'L3M', area: 'Hamilton' },
+  { from: 'L3P', to: 'L3T', area: 'Toronto' },
+  { from: 'L3V', to: 'L3V', area: 'Orillia' },
+  { from: 'L3X', to: 'L4L', area: 'Toronto' },
+  { from: 'L4M', to: 'L4N', area: 'Barrie' },
+  { from: 'L4P', to: 'L4P', area: 'Toronto' },
+  { from: 'L4R', to: 'L4R', area: 'Midland' },
+  { from: 'L4S', to: 'L7K', area: 'Toronto' },
+  { from: 'L7L', to: 'L7T', area: 'Hamilton' },
+  { from: 'L8E', to: 'L9C', area: 'Hamilton' },
+  { from: 'L9G', to: 'L9K', area: 'Hamilton' },
+  { from: 'L9L', to: 'L9L', area: 'Scugog' },
+  { from: 'L9M', to: 'L9M', area: 'Midland' },
+  { from: 'L9N', to: 'L9P', area: 'Toronto' },
+  { from: 'L9S', to: 'L9S', area: 'Barrie' },
+  { from: 'L9T', to: 'L9T', area: 'Toronto' },
+  { from: 'L9W', to: 'L9W', area: 'Orangeville' },
+  { from: 'L9Y', to: 'L9Y', area: 'Collingwood' },
+  { from: 'L9Z', to: 'L9Z', area: 'Wasaga Beach' },
+  { from: 'M1B', to: 'M9W', area: 'Toronto' },
+
+  // Southwestern Ontario
+  { from: 'N1A', to: 'N1A', area: 'Dunnville' },
+  { from: 'N1C', to: 'N1L', area: 'Guelph' },
+  { from: 'N1M', to: 'N1M', area: 'Centre Wellington' },
+  { from: 'N1P', to: 'N2V', area: 'Kitchener-Cambridge-Waterloo' },
+  { from: 'N2Z', to: 'N2Z', area: 'Kincardine' },
+  { from: 'N3A', to: 'N3H', area: 'Kitchener-Cambridge-Waterloo' },
+  { from: 'N3L', to: 'N3V', area: 'Brantford' },
+  { from: 'N3W', to: 'N3W', area: 'Haldimand County' },
+  { from: 'N3Y', to: 'N4B', area: 'Norfolk' },
+  { from: 'N4G', to: 'N4G', area: 'Tillsonburg' },
+  { from: 'N4K', to: 'N4K', area: 'Owen Sound' },
+  { from: 'N4L', to: 'N4L', area: 'Meaford' },
+  { from: 'N4S', to: 'N4V', area: 'Woodstock' },
+  { from: 'N4W', to: 'N4W', area: 'North Perth' },
+  { from: 'N4Z', to: 'N5A', area: 'Stratford' },
+  { from: 'N5C', to: 'N5C', area: 'Ingersoll' },
+  { from: 'N5P', to: 'N5R', area: 'St. Thomas' },
+  { from: 'N5V', to: 'N6P', area: 'London' },
+  { from: 'N7G', to: 'N7G', area: 'Strathroy' },
+  { from: 'N7L', to: 'N7M', area: 'Chatham-Kent' },
+  { from: 'N7S', to: 'N7X', area: 'Sarnia' },
+  { from: 'N8A', to: 'N8A', area: 'Wallaceburg' },
+  { from: 'N8H', to: 'N8H', area: 'Leamington' },
+  { from: 'N8M', to: 'N8M', area: 'Essex' },
+  { from: 'N8N', to: 'N9K', area: 'Windsor' },
+  { from: 'N9V', to: 'N9V', area: 'Windsor' },
+  { from: 'N9Y', to: 'N9Y', area: 'Leamington' },
+
+  // Northern Ontario
+  { from: 'P1B', to: 'P1C', area: 'North Bay' },
+  { from: 'P1H', to: 'P1H', area: 'Huntsville' },
+  { from: 'P1L', to: 'P1L', area: 'Bracebridge' },
+  { from: 'P1P', to: 'P1P', area: 'Gravenhurst' },
+  { from: 'P2B', to: 'P2B', area: 'West Nipissing' },
+  { from: 'P3A', to: 'P3Y', area: 'Greater Sudbury' },
+  { from: 'P4N', to: 'P4R', area: 'Timmins' },
+  { from: 'P5A', to: 'P5A', area: 'Elliot Lake' },
+  { from: 'P5N', to: 'P5N', area: 'Kapuskasing' },
+  { from: 'P6A', to: 'P6C', area: 'Sault Ste. Marie' },
+  { from: 'P7A', to: 'P7L', area: 'Thunder Bay' },
+  { from: 'P9N', to: 'P9N', area: 'Kenora' }
+];
+
+/**
+ * Extracts the FSA from a full or partial postal code ("m5v 2t6", "M5V"), or null when it is not one
+ */
+export const parseFsa = (postal: string): string | null => {
+  const compact = postal.replace(/[\s-]+/g, '').toUpperCase();
+  const match = compact.match(/^([ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z])(\d[ABCEGHJ-NPRSTV-Z]\d)?$/);
+  return match ? match[1] : null;
+};
+
+/**
+ * Checks whether an FSA is rural (a 0 in the second position): one FSA covering many towns
+ */
+export const isRuralFsa = (fsa: string): boolean => fsa[1] === '0';
+
+/**
+ * Finds the CMHC area of an Ontario FSA, or null when the table does not map it
+ */
+export const findFsaArea = (fsa: string): string | null => {
+  const range = ONTARIO_FSA_RANGES.find(entry => fsa >= entry.from && fsa <= entry.to);
+  return range ? range.area : null;
+};
@@ -0,0 +1,215 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  acquireRefreshLock,
+  countConsecutiveFailures,
+  getLastJobs,
+  readJobHistory,
+  readRefreshLock,
+  releaseRefreshLock,
+  runRefreshJob,
+  startRefreshJob,
+  withRefreshLock,
+  JOB_HISTORY_LIMIT,
+  RefreshJob
+} from './refresh-jobs';
+
+let dataDir: string;
+
+const lockPath = () => path.join(dataDir, '.refresh.lock');
+
+const writeHistory = (jobs: Partial<RefreshJob>[]) => {
+  fs.writeFileSync(path.join(dataDir, 'refresh-jobs.json'), JSON.stringify(jobs.map((job, i) => ({
+    id: `job-${i}`,
+    trigger: 'scheduled',
+    startedAt: '2025-01-01T00:00:00.000Z',
+    attempts: 1,
+    ...job
+  }))));
+};
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'refresh-jobs-'));
+  vi.stubEnv('CMHC_DATA_DIR', dataDir);
+  vi.stubEnv('REFRESH_RETRY_DELAY_MS', '0');
+});
+
+afterEach(() => {
+  // Restore the setTimeout spy before the real timers come back
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('refresh lock', () => {
+  it('is held by one job at a time', () => {
+    expect(acquireRefreshLock('a')).toBe(true);
+    expect(acquireRefreshLock('b')).toBe(false);
+    expect(readRefreshLock()).toMatchObject({ jobId: 'a', pid: process.pid });
+  });
+
+  it('is only released by the job holding it', () => {
+    acquireRefreshLock('a');
+
+    releaseRefreshLock('b');
+    expect(readRefreshLock()?.jobId).toBe('a');
+
+    releaseRefreshLock('a');
+    expect(readRefreshLock()).toBeNull();
+  });
+
+  it('is taken over when left behind by a job that died', () => {
+    const acquiredAt = new Date(Date.now() - 31 * 60 * 1000).toISOString();
+    fs.writeFileSync(lockPath(), JSON.stringify({ pid: 1, jobId: 'dead', acquiredAt }));
+
+    expect(acquireRefreshLock('a')).toBe(true);
+    expect(readRefreshLock()?.jobId).toBe('a');
+  });
+
+  it('counts a half-written lock as held', () => {
+    fs.writeFileSync(lockPath(), '{"pid":');
+
+    expect(readRefreshLock()).toMatchObject({ pid: 0, jobId: '' });
+    expect(acquireRefreshLock('a')).toBe(false);
+  });
+});
+
+describe('withRefreshLock', () => {
+  it('runs the task under the lock and releases it', async () => {
+    const result = await withRefreshLock('publish', () => readRefreshLock()?.jobId);
+
+    expect(result).toMatch(/^publish-/);
+    expect(readRefreshLock()).toBeNull();
+  });
+
+  it('releases the lock when the task throws', async () => {
+    await expect(withRefreshLock('publish', () => { throw new Error('Snapshot does not exist'); }))
+      .rejects.toThrow('Snapshot does not exist');
+    expect(readRefreshLock()).toBeNull();
+  });
+
+  it('does not run while a refresh holds the lock', async () => {
+    acquireRefreshLock('refresh');
+    const task = vi.fn();
+
+    expect(await withRefreshLock('dry-run', task)).toBeNull();
+    expect(task).not.toHaveBeenCalled();
+  });
+});
+
+describe('runRefreshJob', () => {
+  it('records a successful job and releases the lock', async () => {
+    const job = await runRefreshJob('manual', async () => ({ outcome: 'updated', snapshot: '20250127T083000Z' }));
+
+    expect(job).toMatchObject({ trigger: 'manual', outcome: 'updated', attempts: 1, snapshot: '20250127T083000Z' });
+    expect(job!.finishedAt).toBeDefined();
+    expect(readJobHistory()).toEqual([job]);
+    expect(readRefreshLock()).toBeNull();
+  });
+
+  it('does not start while another refresh holds the lock', async () => {
+    acquireRefreshLock('other');
+    const task = vi.fn();
+
+    expect(await runRefreshJob('scheduled', task)).toBeNull();
+    expect(task).not.toHaveBeenCalled();
+    expect(readJobHistory()).toEqual([]);
+    expect(readRefreshLock()?.jobId).toBe('other');
+  });
+
+  it('retries with exponential backoff', async () => {
+    vi.stubEnv('REFRESH_RETRY_ATTEMPTS', '4');
+    vi.stubEnv('REFRESH_RETRY_DELAY_MS', '1000');
+    vi.useFakeTimers();
+    const setTimeoutSpy = vi.spyOn(global, 'setTimeout');
+    const task = vi.fn()
+      .mockRejectedValueOnce(new Error('WDS timed out'))
+      .mockRejectedValueOnce(new Error('WDS timed out'))
+      .mockResolvedValueOnce({ outcome: 'unchanged' });
+
+    const running = runRefreshJob('scheduled', task);
+    await vi.runAllTimersAsync();
+    const job = await running;
+
+    expect(task.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2, 3]);
+    expect(setTimeoutSpy.mock.calls.map(([, delay]) => delay)).toEqual([1000, 2000]);
+    expect(job).toMatchObject({ outcome: 'unchanged', attempts: 3, error: undefined });
+  });
+
+  it('records the last error when every attempt fails', async () => {
+    vi.stubEnv('REFRESH_RETRY_ATTEMPTS', '2');
+    const task = vi.fn().mockRejectedValue(new Error('No CSV file found in the ZIP archive'));
+
+    const job = await runRefreshJob('scheduled', task);
+
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(job).toMatchObject({ outcome: 'failed', attempts: 2, error: 'No CSV file found in the ZIP archive' });
+    expect(readRefreshLock()).toBeNull();
+  });
+
+  it('marks jobs interrupted by a crash as failed', async () => {
+    writeHistory([{ outcome: 'running' }]);
+
+    await runRefreshJob('manual', async () => ({ outcome: 'unchanged' }));
+
+    expect(readJobHistory()[0]).toMatchObject({ id: 'job-0', outcome: 'failed', error: 'Interrupted before it finished' });
+  });
+
+  it(`keeps the newest ${JOB_HISTORY_LIMIT} jobs`, async () => {
+    writeHistory(Array.from({ length: JOB_HISTORY_LIMIT }, () => ({ outcome: 'unchanged' })));
+
+    const job = await runRefreshJob('manual', async () => ({ outcome: 'unchanged' }));
+
+    const history = readJobHistory();
+    expect(history).toHaveLength(JOB_HISTORY_LIMIT);
+    expect(history[0].id).toBe('job-1');
+    expect(history[history.length - 1].id).toBe(job!.id);
+  });
+});
+
+describe('startRefreshJob', () => {
+  it('returns the running job before the task finishes', async () => {
+    let finish: (result: { outcome: 'updated' }) => void = () => {};
+    const task = vi.fn(() => new Promise<{ outcome: 'updated' }>(resolve => { finish = resolve; }));
+
+    const started = startRefreshJob('manual', task);
+
+    expect(started!.job).toMatchObject({ trigger: 'manual', outcome: 'running' });
+    expect(readJobHistory()).toMatchObject([{ id: started!.job.id, outcome: 'running' }]);
+    expect(readRefreshLock()?.jobId).toBe(started!.job.id);
+    expect(startRefreshJob('manual', task)).toBeNull();
+
+    finish({ outcome: 'updated' });
+    const job = await started!.finished;
+
+    expect(job).toMatchObject({ id: started!.job.id, outcome: 'updated', attempts: 1 });
+    expect(started!.job.outcome).toBe('running');
+    expect(readJobHistory()).toEqual([job]);
+    expect(readRefreshLock()).toBeNull();
+  });
+});
+
+describe('job history', () => {
+  it('finds the last success and failure and counts failures since the success', () => {
+    writeHistory([
+      { outcome: 'failed' },
+      { outcome: 'updated' },
+      { outcome: 'failed' },
+      { outcome: 'failed' },
+      { outcome: 'running' }
+    ]);
+
+    expect(getLastJobs()).toMatchObject({ lastSuccess: { id: 'job-1' }, lastFailure: { id: 'job-3' } });
+    expect(countConsecutiveFailures()).toBe(2);
+  });
+
+  it('counts every failure when nothing has succeeded', () => {
+    writeHistory([{ outcome: 'failed' }, { outcome: 'failed' }]);
+
+    expect(getLastJobs().lastSuccess).toBeNull();
+    expect(countConsecutiveFailures()).toBe(2);
+  });
+});
@@ -0,0 +1,279 @@
+// Import fs and path only in server context
+const fs = typeof window === 'undefined' ? require('fs') : null;
+const path = typeof window === 'undefined' ? require('path') : null;
+import { getDataDir } from './config';
+import { writeFileAtomic } from './snapshots';
+
+/**
+ * Runs data refreshes as jobs: one at a time across processes (guarded by a lock
+ * file in the data directory), retried with exponential backoff, and recorded in
+ * refresh-jobs.json so failures can be reported by /api/refresh/status.
+ */
+
+export type RefreshTrigger = 'scheduled' | 'manual' | 'offline';
+
+export type RefreshOutcome = 'running' | 'updated' | 'unchanged' | 'skipped' | 'failed';
+
+export interface RefreshJob {
+  id: string;
+  trigger: RefreshTrigger;
+  startedAt: string;
+  finishedAt?: string;
+  outcome: RefreshOutcome;
+  attempts: number;
+  error?: string;
+  snapshot?: string;
+}
+
+export interface RefreshLock {
+  pid: number;
+  jobId: string;
+  acquiredAt: string;
+}
+
+// What a refresh attempt reports when it does not throw
+export interface RefreshTaskResult {
+  outcome: 'updated' | 'unchanged' | 'skipped';
+  snapshot?: string;
+}
+
+const LOCK_FILE_NAME = '.refresh.lock';
+const HISTORY_FILE_NAME = 'refresh-jobs.json';
+
+// Number of jobs kept in the history file
+export const JOB_HISTORY_LIMIT = 50;
+
+// A lock older than this belongs to a process that died mid-refresh
+const LOCK_TIMEOUT = 30 * 60 * 1000;
+
+const getLockPath = (): string => path.join(getDataDir(), LOCK_FILE_NAME);
+
+const getHistoryPath = (): string => path.join(getDataDir(), HISTORY_FILE_NAME);
+
+/**
+ * Gets the retry settings: REFRESH_RETRY_ATTEMPTS tries in total, waiting
+ * REFRESH_RETRY_DELAY_MS before the first retry and doubling the wait after each
+ */
+const getRetrySettings = (): { attempts: number, delay: number } => {
+  const attempts = parseInt(process.env.REFRESH_RETRY_ATTEMPTS || '3', 10);
+  const delay = parseInt(process.env.REFRESH_RETRY_DELAY_MS || '30000', 10);
+
+  return {
+    attempts: isNaN(attempts) || attempts < 1 ? 3 : attempts,
+    delay: isNaN(delay) || delay < 0 ? 30000 : delay
+  };
+};
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Reads the lock of the refresh in progress, or null when no refresh is running
+ */
+export const readRefreshLock = (): RefreshLock | null => {
+  if (!fs || !path || !fs.existsSync(getLockPath())) return null;
+
+  try {
+    return JSON.parse(fs.readFileSync(getLockPath(), 'utf-8'));
+  } catch (error) {
+    // A lock that is being written or was left half-written still counts as held
+    return { pid: 0, jobId: '', acquiredAt: new Date(fs.statSync(getLockPath()).mtimeMs).toISOString() };
+  }
+};
+
+/**
+ * Takes the refresh lock; returns false when another process holds it.
+ * Creating the lock file with the "wx" flag fails if it exists, so only one process can win.
+ */
+export const acquireRefreshLock = (jobId: string): boolean => {
+  fs.mkdirSync(getDataDir(), { recursive: true });
+
+  const existing = readRefreshLock();
+  if (existing && Date.now() - new Date(existing.acquiredAt).getTime() > LOCK_TIMEOUT) {
+    console.warn(`🔄 Removing stale refresh lock of job ${existing.jobId || 'unknown'} (acquired ${existing.acquiredAt})`);
+    fs.rmSync(getLockPath(), { force: true });
+  }
+
+  try {
+    const fd = fs.openSync(getLockPath(), 'wx');
+    try {
+      const lock: RefreshLock = { pid: process.pid, jobId, acquiredAt: new Date().toISOString() };
+      fs.writeSync(fd, JSON.stringify(lock));
+    } finally {
+      fs.closeSync(fd);
+    }
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+    throw error;
+  }
+};
+
+/**
+ * Releases the refresh lock if this job still holds it
+ */
+export const releaseRefreshLock = (jobId: string) => {
+  const lock = readRefreshLock();
+  if (lock && lock.jobId === jobId) {
+    fs.rmSync(getLockPath(), { force: true });
+  }
+};
+
+/**
+ * Runs a task while holding the refresh lock, so it cannot overlap a refresh or
+ * another locked task. Returns null without running it when the lock is held.
+ */
+export const withRefreshLock = async <T>(label: string, task: () => T | Promise<T>): Promise<T | null> => {
+  const id = `${label}-${Date.now().toString(36)}-${process.pid}`;
+  if (!acquireRefreshLock(id)) return null;
+
+  try {
+    return await task();
+  } finally {
+    releaseRefreshLock(id);
+  }
+};
+
+/**
+ * Reads the job history, oldest first
+ */
+export const readJobHistory = (): RefreshJob[] => {
+  if (!fs || !path || !fs.existsSync(getHistoryPath())) return [];
+
+  try {
+    const jobs = JSON.parse(fs.readFileSync(getHistoryPath(), 'utf-8'));
+    return Array.isArray(jobs) ? jobs : [];
+  } catch (error) {
+    console.error('Error reading the refresh job history:', error);
+    return [];
+  }
+};
+
+/**
+ * Adds or updates a job in the history, keeping the newest JOB_HISTORY_LIMIT jobs
+ */
+const saveJob = (job: RefreshJob) => {
+  const jobs = readJobHistory().filter(existing => existing.id !== job.id);
+  jobs.push(job);
+  writeFileAtomic(getHistoryPath(), JSON.stringify(jobs.slice(-JOB_HISTORY_LIMIT), null, 2));
+};
+
+/**
+ * Marks jobs left "running" by a process that died as failed; only called while holding the lock
+ */
+const closeInterruptedJobs = () => {
+  for (const job of readJobHistory().filter(job => job.outcome === 'running')) {
+    saveJob({ ...job, outcome: 'failed', error: 'Interrupted before it finished' });
+  }
+};
+
+/**
+ * Gets the newest finished job that succeeded, and the newest that failed
+ */
+export const getLastJobs = (): { lastSuccess: RefreshJob | null, lastFailure: RefreshJob | null } => {
+  const finished = readJobHistory().filter(job => job.outcome !== 'running').reverse();
+
+  return {
+    lastSuccess: finished.find(job => job.outcome !== 'failed') || null,
+    lastFailure: finished.find(job => job.outcome === 'failed') || null
+  };
+};
+
+/**
+ * Counts the failed jobs since the last successful one
+ */
+export const countConsecutiveFailures = (): number => {
+  const finished = readJobHistory().filter(job => job.outcome !== 'running').reverse();
+  const lastSuccess = finished.findIndex(job => job.outcome !== 'failed');
+  return lastSuccess === -1 ? finished.length : lastSuccess;
+};
+
+export interface StartedRefreshJob {
+  // The job as recorded when it started (outcome "running")
+  job: RefreshJob;
+  // Settles with the finished job
+  finished: Promise<RefreshJob>;
+}
+
+/**
+ * Runs the attempts of a started job, retrying failures with exponential
+ * backoff, then records the result and releases the lock
+ */
+const runJobAttempts = async (
+  job: RefreshJob,
+  task: (attempt: number) => Promise<RefreshTaskResult>
+): Promise<RefreshJob> => {
+  try {
+    const { attempts, delay } = getRetrySettings();
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      job.attempts = attempt;
+      try {
+        const result = await task(attempt);
+        job.outcome = result.outcome;
+        job.snapshot = result.snapshot;
+        job.error = undefined;
+        break;
+      } catch (error) {
+        job.outcome = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+
+        if (attempt < attempts) {
+          const wait = delay * Math.pow(2, attempt - 1);
+          console.warn(`🔄 Refresh attempt ${attempt} of ${attempts} failed (${job.error}); retrying in ${Math.round(wait / 1000)}s`);
+          await sleep(wait);
+        } else {
+          console.error(`🔄 Refresh job ${job.id} failed after ${attempts} attempt(s): ${job.error}`);
+        }
+      }
+    }
+
+    job.finishedAt = new Date().toISOString();
+    saveJob(job);
+    return job;
+  } finally {
+    releaseRefreshLock(job.id);
+  }
+};
+
+/**
+ * Starts a refresh task as a job under the refresh lock without waiting for it.
+ * Returns the running job and a promise of the finished one, or null when
+ * another refresh is already running.
+ */
+export const startRefreshJob = (
+  trigger: RefreshTrigger,
+  task: (attempt: number) => Promise<RefreshTaskResult>
+): StartedRefreshJob | null => {
+  if (!fs || !path) return null;
+
+  const id = `${Date.now().toString(36)}-${process.pid}`;
+  if (!acquireRefreshLock(id)) {
+    const lock = readRefreshLock();
+    console.log(`🔄 Refresh job ${lock ? lock.jobId : ''} is already running - not starting another`);
+    return null;
+  }
+
+  const job: RefreshJob = { id, trigger, startedAt: new Date().toISOString(), outcome: 'running', attempts: 0 };
+  try {
+    closeInterruptedJobs();
+    saveJob(job);
+  } catch (error) {
+    releaseRefreshLock(id);
+    throw error;
+  }
+
+  return { job: { ...job }, finished: runJobAttempts(job, task) };
+};
+
+/**
+ * Runs a refresh task as a job under the refresh lock, retrying failed attempts
+ * with exponential backoff. Returns the finished job, or null when another
+ * refresh is already running.
+ */
+export const runRefreshJob = async (
+  trigger: RefreshTrigger,
+  task: (attempt: number) => Promise<RefreshTaskResult>
+): Promise<RefreshJob | null> => {
+  const started = startRefreshJob(trigger, task);
+  return started ? started.finished : null;
+};
@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { CpiRecord } from './cmhc';
+import { getRentAdjustment } from './cmhc';
+import { getDataset, Dataset } from './data-store';
+import { computeCpiAdjustment, computeFallbackAdjustment, computeRentAdjustment } from './rent-adjustment';
+
+vi.mock('./data-store', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./data-store')>(),
+  getDataset: vi.fn()
+}));
+
+const clock = () => new Date(2026, 9, 19);
+
+const series = (geo: string, values: Record<string, number>): CpiRecord[] =>
+  Object.entries(values).map(([month, VALUE]) => ({ GEO: geo, RefDate: `${month}-01`, VALUE }));
+
+const ONTARIO = series('Ontario', { '2024-10': 160, '2025-10': 164, '2026-09': 168 });
+
+const dataset = (cpi: CpiRecord[]): Dataset => ({
+  version: 'test',
+  snapshot: null,
+  metadata: null,
+  data: [],
+  geographies: [],
+  vacancy: [],
+  cpi
+});
+
+describe('computeCpiAdjustment', () => {
+  it('moves the average with the index from the survey month to the latest month', () => {
+    expect(computeCpiAdjustment(ONTARIO, '2024-10-01')).toEqual({
+      model: 'cpi',
+      fromMonth: '2024-10',
+      toMonth: '2026-09',
+      months: 23,
+      factor: 168 / 160,
+      index: { geo: 'Ontario', from: 160, to: 168 }
+    });
+  });
+
+  it('is null when the series does not cover the survey month', () => {
+    expect(computeCpiAdjustment(ONTARIO, '2023-10-01')).toBeNull();
+    expect(computeCpiAdjustment([], '2024-10-01')).toBeNull();
+    expect(computeCpiAdjustment(ONTARIO, undefined)).toBeNull();
+  });
+});
+
+describe('computeFallbackAdjustment', () => {
+  it('compounds the annual rate monthly up to the clock month', () => {
+    const adjustment = computeFallbackAdjustment('2024-10-01', 0.05, clock);
+
+    expect(adjustment).toMatchObject({ model: 'fallback', fromMonth: '2024-10', toMonth: '2026-10', months: 24, annualRate: 0.05 });
+    expect(adjustment!.factor).toBeCloseTo(Math.pow(1 + 0.05 / 12, 24), 10);
+  });
+
+  it('is null when the period cannot be parsed', () => {
+    expect(computeFallbackAdjustment('soon', 0.05, clock)).toBeNull();
+  });
+});
+
+describe('computeRentAdjustment', () => {
+  it('prefers the CPI and falls back to the annual rate', () => {
+    expect(computeRentAdjustment(ONTARIO, '2024-10-01', { annualRate: 0.05, clock })!.model).toBe('cpi');
+    expect(computeRentAdjustment(ONTARIO, '2022-10-01', { annualRate: 0.05, clock })!.model).toBe('fallback');
+  });
+});
+
+describe('getRentAdjustment', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses the CPI of the province', async () => {
+    vi.mocked(getDataset).mockResolvedValue(dataset([...ONTARIO, ...series('Quebec', { '2024-10': 150, '2026-09': 165 })]));
+
+    const ontario = await getRentAdjustment('2024-10-01', 'ON', clock);
+    const quebec = await getRentAdjustment('2024-10-01', 'QC', clock);
+
+    expect(ontario).toMatchObject({ model: 'cpi', index: { geo: 'Ontario' } });
+    expect(ontario!.factor).toBeCloseTo(1.05, 10);
+    expect(quebec).toMatchObject({ model: 'cpi', index: { geo: 'Quebec' } });
+    expect(quebec!.factor).toBeCloseTo(1.1, 10);
+  });
+
+  it('falls back to the configured rate when the province has no CPI', async () => {
+    vi.mocked(getDataset).mockResolvedValue(dataset(ONTARIO));
+    vi.stubEnv('RENT_ADJUSTMENT_FALLBACK_RATE', '0.03');
+
+    const adjustment = await getRentAdjustment('2024-10-01', 'BC', clock);
+
+    expect(adjustment).toMatchObject({ model: 'fallback', months: 24, annualRate: 0.03 });
+  });
+
+  it('falls back to the default rate without CPI data', async () => {
+    vi.mocked(getDataset).mockResolvedValue(dataset([]));
+
+    const adjustment = await getRentAdjustment('2024-10-01', 'ON', clock);
+
+    expect(adjustment).toMatchObject({ model: 'fallback', annualRate: 0.05 });
+  });
+});
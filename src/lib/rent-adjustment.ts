@@ -0,0 +1,97 @@
+import type { CpiRecord } from './cmhc';
+import { getDataAge, systemClock, Clock } from './data-age';
+import { parseRefDate } from './survey-periods';
+
+/**
+ * Carries a survey average forward from the survey month. With the Statistics
+ * Canada CPI for rented accommodation of the province, the average moves with
+ * the index from the survey month to the latest CPI month; when the index does
+ * not cover the survey month, a fallback annual rate is compounded monthly from
+ * the survey month to the current month instead.
+ */
+
+export type RentAdjustmentModel = 'cpi' | 'fallback';
+
+export interface RentAdjustment {
+  model: RentAdjustmentModel;
+  // Months the adjustment runs between, e.g. "2024-10" to "2026-09"
+  fromMonth: string;
+  toMonth: string;
+  months: number;
+  // Multiplier applied to the survey average
+  factor: number;
+  // CPI model: the series used and its index value in each month
+  index?: { geo: string, from: number, to: number };
+  // Fallback model: the annual rate that was compounded
+  annualRate?: number;
+}
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const formatMonth = (date: Date): string => `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+
+const monthsBetween = (from: string, to: string): number => {
+  const [fromYear, fromMonth] = from.split('-').map(Number);
+  const [toYear, toMonth] = to.split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+};
+
+/**
+ * Works out the CPI adjustment from the survey month to the latest month of a
+ * province's series (oldest month first), or null when the series has no index
+ * for the survey month
+ */
+export const computeCpiAdjustment = (series: CpiRecord[], refDate: string | undefined): RentAdjustment | null => {
+  const { date } = parseRefDate(refDate || '');
+  if (!date || series.length === 0) return null;
+
+  const fromMonth = formatMonth(date);
+  const from = series.find(record => record.RefDate.slice(0, 7) === fromMonth);
+  const to = series[series.length - 1];
+  if (!from || to.RefDate < from.RefDate) return null;
+
+  const toMonth = to.RefDate.slice(0, 7);
+  return {
+    model: 'cpi',
+    fromMonth,
+    toMonth,
+    months: monthsBetween(fromMonth, toMonth),
+    factor: to.VALUE / from.VALUE,
+    index: { geo: to.GEO, from: from.VALUE, to: to.VALUE }
+  };
+};
+
+/**
+ * Works out the fallback adjustment: the annual rate compounded monthly from
+ * the survey month to the clock's month, or null when the period cannot be parsed
+ */
+export const computeFallbackAdjustment = (
+  refDate: string | undefined,
+  annualRate: number,
+  clock: Clock = systemClock
+): RentAdjustment | null => {
+  const { date } = parseRefDate(refDate || '');
+  const months = getDataAge(refDate, clock);
+  if (!date || months === undefined) return null;
+
+  return {
+    model: 'fallback',
+    fromMonth: formatMonth(date),
+    toMonth: formatMonth(clock()),
+    months,
+    factor: Math.pow(1 + annualRate / 12, months),
+    annualRate
+  };
+};
+
+/**
+ * Adjusts with the CPI series when it covers the survey month, otherwise with the fallback rate
+ */
+export const computeRentAdjustment = (
+  series: CpiRecord[],
+  refDate: string | undefined,
+  options: { annualRate: number, clock?: Clock }
+): RentAdjustment | null => {
+  return computeCpiAdjustment(series, refDate) ||
+    computeFallbackAdjustment(refDate, options.annualRate, options.clock);
+};
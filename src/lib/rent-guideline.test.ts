@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { calculateGuidelineRent, isExemptFromGuideline, parseDate, GuidelineError } from './rent-guideline';
+
+const date = (value: string): Date => parseDate(value)!;
+
+const clock = () => date('2026-10-19');
+
+describe('parseDate', () => {
+  it('parses calendar dates and rejects others', () => {
+    expect(parseDate('2024-02-29')).toEqual(new Date(2024, 1, 29));
+    expect(parseDate('2023-02-29')).toBeNull();
+    expect(parseDate('2024-2-1')).toBeNull();
+  });
+});
+
+describe('isExemptFromGuideline', () => {
+  it('exempts units first occupied after November 15, 2018', () => {
+    expect(isExemptFromGuideline(date('2018-11-16'))).toBe(true);
+    expect(isExemptFromGuideline(date('2018-11-15'))).toBe(false);
+    expect(isExemptFromGuideline(undefined)).toBe(false);
+  });
+});
+
+describe('calculateGuidelineRent', () => {
+  it('takes the guideline of each anniversary year', () => {
+    const result = calculateGuidelineRent({ startingRent: 2000, moveIn: date('2022-03-01'), proposedRent: 2100 }, clock);
+
+    expect(result.effective).toBe('2026-10-19');
+    expect(result.increases).toEqual([
+      { date: '2023-03-01', year: 2023, percent: 2.5, rent: 2050 },
+      { date: '2024-03-01', year: 2024, percent: 2.5, rent: 2101.25 },
+      { date: '2025-03-01', year: 2025, percent: 2.5, rent: 2153.78 },
+      { date: '2026-03-01', year: 2026, percent: 2.1, rent: 2199.01 }
+    ]);
+    expect(result).toMatchObject({ exempt: false, maximumRent: 2199.01, allowed: true, excess: 0 });
+  });
+
+  it('reports how far a proposed rent is over the guideline', () => {
+    const result = calculateGuidelineRent({
+      startingRent: 2000,
+      moveIn: date('2022-03-01'),
+      proposedRent: 2300,
+      effective: date('2024-03-01')
+    }, clock);
+
+    expect(result).toMatchObject({ maximumRent: 2101.25, allowed: false, excess: 198.75 });
+  });
+
+  it('allows no increase in the first 12 months', () => {
+    const result = calculateGuidelineRent({
+      startingRent: 1500,
+      moveIn: date('2026-01-15'),
+      proposedRent: 1501
+    }, clock);
+
+    expect(result.increases).toEqual([]);
+    expect(result).toMatchObject({ maximumRent: 1500, allowed: false, excess: 1 });
+  });
+
+  it('applies the 2021 rent freeze', () => {
+    const result = calculateGuidelineRent({
+      startingRent: 1000,
+      moveIn: date('2020-06-01'),
+      proposedRent: 1000,
+      effective: date('2021-06-01')
+    }, clock);
+
+    expect(result.increases).toEqual([{ date: '2021-06-01', year: 2021, percent: 0, rent: 1000 }]);
+  });
+
+  it('keeps a February 29 move-in anniversary in February', () => {
+    const result = calculateGuidelineRent({
+      startingRent: 1000,
+      moveIn: date('2024-02-29'),
+      proposedRent: 1000,
+      effective: date('2025-02-28')
+    }, clock);
+
+    expect(result.increases.map(increase => increase.date)).toEqual(['2025-02-28']);
+  });
+
+  it('does not limit exempt units', () => {
+    const result = calculateGuidelineRent({
+      startingRent: 2000,
+      moveIn: date('2022-03-01'),
+      proposedRent: 3000,
+      firstOccupied: date('2019-05-01')
+    }, clock);
+
+    expect(result).toMatchObject({ exempt: true, maximumRent: null, allowed: true, excess: 0, increases: [] });
+  });
+
+  it('goes back to the 1991 guideline', () => {
+    const result = calculateGuidelineRent({
+      startingRent: 500,
+      moveIn: date('1990-07-01'),
+      proposedRent: 500,
+      effective: date('1991-07-01')
+    }, clock);
+
+    expect(result.increases).toEqual([{ date: '1991-07-01', year: 1991, percent: 5.4, rent: 527 }]);
+  });
+
+  it('rejects increases before the guidelines on record', () => {
+    const check = () => calculateGuidelineRent({ startingRent: 500, moveIn: date('1988-07-01'), proposedRent: 600 }, clock);
+
+    expect(check).toThrow(GuidelineError);
+    expect(check).toThrow('Rent increase guidelines are on record from 1991');
+  });
+
+  it('rejects an effective date before the move-in', () => {
+    expect(() => calculateGuidelineRent({
+      startingRent: 1000,
+      moveIn: date('2025-01-01'),
+      proposedRent: 1000,
+      effective: date('2024-12-31')
+    }, clock)).toThrow('The increase cannot take effect before the move-in date');
+  });
+});
@@ -0,0 +1,196 @@
+import { systemClock, Clock } from './data-age';
+
+/**
+ * Ontario's rent increase guideline: the most a landlord may raise the rent of
+ * a sitting tenant without approval from the Landlord and Tenant Board. Rent may
+ * go up once every 12 months, starting 12 months after the tenant moved in, by
+ * the guideline of the year the increase takes effect. Units first occupied as
+ * residences after November 15, 2018 are exempt and have no limit.
+ */
+
+export interface RentGuideline {
+  year: number;
+  // Allowed increase in percent, e.g. 2.5
+  percent: number;
+}
+
+// Guidelines published by the province, oldest first; 2021 was a rent freeze
+export const ONTARIO_RENT_GUIDELINES: RentGuideline[] = [
+  { year: 1991, percent: 5.4 },
+  { year: 1992, percent: 6.0 },
+  { year: 1993, percent: 4.9 },
+  { year: 1994, percent: 3.2 },
+  { year: 1995, percent: 2.9 },
+  { year: 1996, percent: 2.8 },
+  { year: 1997, percent: 2.8 },
+  { year: 1998, percent: 3.0 },
+  { year: 1999, percent: 3.0 },
+  { year: 2000, percent: 2.6 },
+  { year: 2001, percent: 2.9 },
+  { year: 2002, percent: 3.9 },
+  { year: 2003, percent: 2.9 },
+  { year: 2004, percent: 2.9 },
+  { year: 2005, percent: 1.5 },
+  { year: 2006, percent: 2.1 },
+  { year: 2007, percent: 2.6 },
+  { year: 2008, percent: 1.4 },
+  { year: 2009, percent: 1.8 },
+  { year: 2010, percent: 2.1 },
+  { year: 2011, percent: 0.7 },
+  { year: 2012, percent: 3.1 },
+  { year: 2013, percent: 2.5 },
+  { year: 2014, percent: 0.8 },
+  { year: 2015, percent: 1.6 },
+  { year: 2016, percent: 2.0 },
+  { year: 2017, percent: 1.5 },
+  { year: 2018, percent: 1.8 },
+  { year: 2019, percent: 1.8 },
+  { year: 2020, percent: 2.2 },
+  { year: 2021, percent: 0.0 },
+  { year: 2022, percent: 1.2 },
+  { year: 2023, percent: 2.5 },
+  { year: 2024, percent: 2.5 },
+  { year: 2025, percent: 2.5 },
+  { year: 2026, percent: 2.1 }
+];
+
+// Units first occupied as residences after this date are exempt from the guideline
+export const GUIDELINE_EXEMPTION_DATE = '2018-11-15';
+
+/**
+ * Raised when a guideline calculation cannot be made from the input
+ */
+export class GuidelineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GuidelineError';
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, GuidelineError.prototype);
+  }
+}
+
+// One guideline increase taken on an anniversary of the move-in date
+export interface GuidelineIncrease {
+  date: string;
+  year: number;
+  percent: number;
+  // Rent after the increase
+  rent: number;
+}
+
+export interface GuidelineResult {
+  startingRent: number;
+  moveIn: string;
+  // Date the proposed rent takes effect
+  effective: string;
+  proposedRent: number;
+  // True when the unit was first occupied after November 15, 2018
+  exempt: boolean;
+  // Highest rent allowed on the effective date; null when the unit is exempt
+  maximumRent: number | null;
+  // Whether the proposed rent is within the guideline (always true when exempt)
+  allowed: boolean;
+  // Amount the proposed rent is above the maximum (0 when within it)
+  excess: number;
+  // The increases that add up to the maximum, one per 12 months of tenancy
+  increases: GuidelineIncrease[];
+}
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Formats a date as "YYYY-MM-DD"
+ */
+export const formatDate = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Parses a "YYYY-MM-DD" date, or returns null when it is not a real calendar date
+ */
+export const parseDate = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+/**
+ * Gets the guideline for the year an increase takes effect
+ */
+export const getGuideline = (year: number): RentGuideline | undefined =>
+  ONTARIO_RENT_GUIDELINES.find(guideline => guideline.year === year);
+
+/**
+ * Checks whether a unit first occupied on the given date is exempt from the guideline
+ */
+export const isExemptFromGuideline = (firstOccupied: Date | null | undefined): boolean =>
+  !!firstOccupied && formatDate(firstOccupied) > GUIDELINE_EXEMPTION_DATE;
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Gets an anniversary of a date; a February 29 move-in falls on February 28 in other years
+ */
+const getAnniversary = (date: Date, years: number): Date => {
+  const year = date.getFullYear() + years;
+  const lastDay = new Date(year, date.getMonth() + 1, 0).getDate();
+  return new Date(year, date.getMonth(), Math.min(date.getDate(), lastDay));
+};
+
+/**
+ * Works out the highest rent the guideline allows on the effective date (today
+ * by default) for a tenancy that started at the given rent, assuming the
+ * landlord took the full guideline increase on every anniversary of the move-in
+ */
+export const calculateGuidelineRent = (input: {
+  startingRent: number;
+  moveIn: Date;
+  proposedRent: number;
+  effective?: Date;
+  firstOccupied?: Date | null;
+}, clock: Clock = systemClock): GuidelineResult => {
+  const { startingRent, moveIn, proposedRent, firstOccupied } = input;
+  const effective = input.effective || clock();
+
+  if (effective < moveIn) {
+    throw new GuidelineError('The increase cannot take effect before the move-in date');
+  }
+
+  const base = {
+    startingRent,
+    moveIn: formatDate(moveIn),
+    effective: formatDate(effective),
+    proposedRent
+  };
+
+  if (isExemptFromGuideline(firstOccupied)) {
+    return { ...base, exempt: true, maximumRent: null, allowed: true, excess: 0, increases: [] };
+  }
+
+  const increases: GuidelineIncrease[] = [];
+  let rent = startingRent;
+
+  for (let years = 1; ; years++) {
+    const anniversary = getAnniversary(moveIn, years);
+    if (anniversary > effective) break;
+
+    const guideline = getGuideline(anniversary.getFullYear());
+    if (!guideline && anniversary.getFullYear() < ONTARIO_RENT_GUIDELINES[0].year) {
+      throw new GuidelineError(
+        `Rent increase guidelines are on record from ${ONTARIO_RENT_GUIDELINES[0].year}; ` +
+        `enter the rent and date of an increase taken since then as the starting rent and move-in date`
+      );
+    }
+    if (!guideline) {
+      throw new GuidelineError(`No rent increase guideline is known for ${anniversary.getFullYear()}`);
+    }
+
+    rent = roundCents(rent * (1 + guideline.percent / 100));
+    increases.push({ date: formatDate(anniversary), year: guideline.year, percent: guideline.percent, rent });
+  }
+
+  const excess = roundCents(Math.max(0, proposedRent - rent));
+  return { ...base, exempt: false, maximumRent: rent, allowed: excess === 0, excess, increases };
+};
@@ -0,0 +1,33 @@
+import { startMockWdsServer, MOCK_WDS_SCENARIOS, MockWdsScenario } from './mock-wds-server';
+
+/**
+ * Starts the local mock WDS server and keeps it running until interrupted.
+ * MOCK_WDS_PORT picks the port (default 4010), MOCK_WDS_SCENARIO the failure mode.
+ */
+const runMockWds = async () => {
+  const scenario = (process.env.MOCK_WDS_SCENARIO || 'success') as MockWdsScenario;
+
+  if (!MOCK_WDS_SCENARIOS.includes(scenario)) {
+    console.error(`Unknown scenario "${scenario}". Expected one of: ${MOCK_WDS_SCENARIOS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const server = await startMockWdsServer({
+    port: parseInt(process.env.MOCK_WDS_PORT || '4010', 10),
+    scenario
+  });
+
+  console.log(`Mock WDS server running (${scenario})`);
+  console.log(`Use it with: STATCAN_WDS_BASE_URL=${server.baseUrl}`);
+
+  process.on('SIGINT', () => {
+    server.close().then(() => process.exit(0));
+  });
+};
+
+runMockWds().catch(err => {
+  console.error('Mock WDS server failed to start:', err);
+  process.exit(1);
+});
+
+export {};
@@ -0,0 +1,59 @@
+import { listSnapshots, rollbackSnapshot, publishSnapshot } from './snapshots';
+
+/**
+ * Lists data snapshots and moves the current pointer between them.
+ *
+ *   npm run data:snapshots -- list
+ *   npm run data:snapshots -- rollback [id]   (default: the snapshot before the current one)
+ *   npm run data:snapshots -- publish <id>
+ *
+ * Uses CMHC_DATA_DIR like the refresh code. Running servers load the new
+ * current snapshot on their own within seconds.
+ */
+const runSnapshotCommand = (args: string[]): boolean => {
+  const [command = 'list', id] = args;
+
+  switch (command) {
+    case 'list': {
+      const snapshots = listSnapshots();
+      if (snapshots.length === 0) {
+        console.log('No snapshots yet');
+        return true;
+      }
+
+      for (const snapshot of snapshots) {
+        const marker = snapshot.current ? '*' : snapshot.staged ? '+' : ' ';
+        const details = snapshot.valid
+          ? `records: ${snapshot.recordCount}, generated: ${snapshot.generatedAt}, release: ${snapshot.releaseTime || 'unknown'}`
+          : `INVALID: ${snapshot.error}`;
+        console.log(`${marker} ${snapshot.id}  ${details}`);
+      }
+      return true;
+    }
+
+    case 'rollback':
+    case 'publish': {
+      if (command === 'publish' && !id) {
+        console.error('Usage: publish <snapshot id>');
+        return false;
+      }
+
+      const pointer = command === 'publish' ? publishSnapshot(id) : rollbackSnapshot(id);
+      console.log(`✅ Current data is now snapshot ${pointer.snapshot} (was ${pointer.previous || 'none'})`);
+      return true;
+    }
+
+    default:
+      console.error(`Unknown command "${command}". Expected list, rollback or publish`);
+      return false;
+  }
+};
+
+try {
+  process.exit(runSnapshotCommand(process.argv.slice(2)) ? 0 : 1);
+} catch (err) {
+  console.error('Snapshot command failed:', err instanceof Error ? err.message : err);
+  process.exit(1);
+}
+
+export {};
@@ -0,0 +1,192 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadDataFile, CmhcDataFile } from './cmhc-schema';
+import { computeDataDiff } from './data-diff';
+import {
+  createSnapshot,
+  getCurrentDataFilePath,
+  getCurrentSnapshotId,
+  listSnapshots,
+  publishSnapshot,
+  readCurrentDataFile,
+  readSnapshotDiff,
+  readSnapshotPointer,
+  rollbackSnapshot,
+  saveSnapshotDiff,
+  stageSnapshot,
+  SNAPSHOT_RETENTION
+} from './snapshots';
+
+let dataDir: string;
+
+// A data file at the current schema version, generated at the given time
+const dataFile = (generatedAt: string, rent = 1650): CmhcDataFile => loadDataFile({
+  metadata: { generatedAt, recordCount: 1 },
+  data: [{ GEO: 'Toronto, Ontario', Bedrooms: '1', VALUE: rent, RefDate: '2024', Year: 2024, StructureType: 'Row and apartment structures of three units and over' }]
+});
+
+const readJson = (name: string) => JSON.parse(fs.readFileSync(path.join(dataDir, name), 'utf-8'));
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshots-'));
+  vi.stubEnv('CMHC_DATA_DIR', dataDir);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('createSnapshot', () => {
+  it('writes the file under an id taken from when it was generated', () => {
+    const id = createSnapshot(dataFile('2025-01-27T08:30:00.000Z'));
+
+    expect(id).toBe('20250127T083000Z');
+    expect(listSnapshots()).toMatchObject([{ id, current: false, staged: false, valid: true, recordCount: 1 }]);
+  });
+
+  it('gives snapshots generated at the same time distinct ids', () => {
+    createSnapshot(dataFile('2025-01-27T08:30:00.000Z'));
+
+    expect(createSnapshot(dataFile('2025-01-27T08:30:00.000Z', 1700))).toBe('20250127T083000Z-2');
+  });
+
+  it('rejects an invalid file and leaves nothing behind', () => {
+    const file = dataFile('2025-01-27T08:30:00.000Z');
+    const broken = { ...file, metadata: { ...file.metadata, recordCount: 2 } };
+
+    expect(() => createSnapshot(broken)).toThrow('metadata.recordCount (2)');
+    expect(listSnapshots()).toEqual([]);
+  });
+});
+
+describe('publishSnapshot', () => {
+  it('points current at the snapshot and copies it to cmhc-data.json', () => {
+    const id = createSnapshot(dataFile('2025-01-27T08:30:00.000Z'));
+    const pointer = publishSnapshot(id);
+
+    expect(pointer).toMatchObject({ snapshot: id, previous: undefined });
+    expect(getCurrentSnapshotId()).toBe(id);
+    expect(getCurrentDataFilePath()).toBe(path.join(dataDir, 'snapshots', `cmhc-data-${id}.json`));
+    expect(readJson('cmhc-data.json').metadata.generatedAt).toBe('2025-01-27T08:30:00.000Z');
+  });
+
+  it('keeps the data file from before snapshots so it can be rolled back to', () => {
+    fs.writeFileSync(path.join(dataDir, 'cmhc-data.json'), JSON.stringify(dataFile('2024-12-01T00:00:00.000Z')));
+
+    publishSnapshot(createSnapshot(dataFile('2025-01-27T08:30:00.000Z')));
+
+    expect(listSnapshots().map(snapshot => snapshot.id)).toEqual(['20250127T083000Z', '20241201T000000Z']);
+  });
+
+  it('records the snapshot it replaced', () => {
+    const first = createSnapshot(dataFile('2025-01-27T08:30:00.000Z'));
+    const second = createSnapshot(dataFile('2025-02-27T08:30:00.000Z', 1700));
+    publishSnapshot(first);
+
+    expect(publishSnapshot(second)).toMatchObject({ snapshot: second, previous: first });
+  });
+
+  it('refuses an id that is not a snapshot name', () => {
+    expect(() => publishSnapshot('../cmhc-data')).toThrow('Invalid snapshot id: ../cmhc-data');
+  });
+
+  it('refuses a missing or corrupt snapshot and keeps the current one', () => {
+    const good = createSnapshot(dataFile('2025-01-27T08:30:00.000Z'));
+    const bad = createSnapshot(dataFile('2025-02-27T08:30:00.000Z', 1700));
+    publishSnapshot(good);
+    fs.writeFileSync(path.join(dataDir, 'snapshots', `cmhc-data-${bad}.json`), '{"metadata":');
+
+    expect(() => publishSnapshot('20990101T000000Z')).toThrow('Snapshot 20990101T000000Z does not exist');
+    expect(() => publishSnapshot(bad)).toThrow('Data file is not valid JSON');
+    expect(readSnapshotPointer()?.snapshot).toBe(good);
+    expect(readJson('cmhc-data.json').metadata.generatedAt).toBe('2025-01-27T08:30:00.000Z');
+  });
+
+  it(`keeps ${SNAPSHOT_RETENTION} snapshots besides the current one`, () => {
+    for (let day = 1; day <= SNAPSHOT_RETENTION + 2; day++) {
+      publishSnapshot(createSnapshot(dataFile(`2025-01-${String(day).padStart(2, '0')}T00:00:00.000Z`)));
+    }
+
+    const snapshots = listSnapshots();
+    expect(snapshots).toHaveLength(SNAPSHOT_RETENTION + 1);
+    expect(snapshots[0]).toMatchObject({ id: '20250112T000000Z', current: true });
+    expect(snapshots[snapshots.length - 1].id).toBe('20250102T000000Z');
+  });
+});
+
+describe('rollbackSnapshot', () => {
+  it('goes back to the newest valid snapshot older than the current one', () => {
+    const first = createSnapshot(dataFile('2025-01-01T00:00:00.000Z'));
+    const corrupt = createSnapshot(dataFile('2025-02-01T00:00:00.000Z'));
+    const third = createSnapshot(dataFile('2025-03-01T00:00:00.000Z'));
+    fs.writeFileSync(path.join(dataDir, 'snapshots', `cmhc-data-${corrupt}.json`), '');
+    publishSnapshot(third);
+
+    expect(rollbackSnapshot()).toMatchObject({ snapshot: first, previous: third });
+    expect(readJson('cmhc-data.json').metadata.generatedAt).toBe('2025-01-01T00:00:00.000Z');
+  });
+
+  it('goes to a named snapshot, even a newer one', () => {
+    const first = createSnapshot(dataFile('2025-01-01T00:00:00.000Z'));
+    const second = createSnapshot(dataFile('2025-02-01T00:00:00.000Z'));
+    publishSnapshot(first);
+
+    expect(rollbackSnapshot(second).snapshot).toBe(second);
+  });
+
+  it('skips snapshots that were staged but never published', () => {
+    const first = createSnapshot(dataFile('2025-01-01T00:00:00.000Z'));
+    publishSnapshot(first);
+    const staged = createSnapshot(dataFile('2025-02-01T00:00:00.000Z'));
+    stageSnapshot(staged);
+    publishSnapshot(createSnapshot(dataFile('2025-03-01T00:00:00.000Z')));
+
+    expect(rollbackSnapshot().snapshot).toBe(first);
+  });
+
+  it('fails when there is nothing older', () => {
+    publishSnapshot(createSnapshot(dataFile('2025-01-01T00:00:00.000Z')));
+
+    expect(() => rollbackSnapshot()).toThrow('No earlier valid snapshot to roll back to');
+  });
+});
+
+describe('snapshot diffs', () => {
+  it('stores a diff beside its snapshot and reads the current one by default', () => {
+    const first = createSnapshot(dataFile('2025-01-01T00:00:00.000Z'));
+    publishSnapshot(first);
+    const second = createSnapshot(dataFile('2025-02-01T00:00:00.000Z', 1700));
+    const diff = computeDataDiff(readCurrentDataFile(), dataFile('2025-02-01T00:00:00.000Z', 1700), { from: first, to: second });
+    saveSnapshotDiff(second, diff);
+    publishSnapshot(second);
+
+    expect(readSnapshotDiff()).toMatchObject({ fromSnapshot: first, toSnapshot: second, summary: { changed: 1 } });
+    expect(readSnapshotDiff(first)).toBeNull();
+    expect(readSnapshotDiff('../current')).toBeNull();
+  });
+
+  it('reads the file being served', () => {
+    expect(readCurrentDataFile()).toBeNull();
+
+    publishSnapshot(createSnapshot(dataFile('2025-01-01T00:00:00.000Z')));
+
+    expect(readCurrentDataFile()?.metadata.generatedAt).toBe('2025-01-01T00:00:00.000Z');
+  });
+});
+
+describe('stageSnapshot', () => {
+  it('keeps a snapshot staged until it is published', () => {
+    const id = createSnapshot(dataFile('2025-01-01T00:00:00.000Z'));
+    stageSnapshot(id);
+    stageSnapshot(id);
+
+    expect(listSnapshots()).toMatchObject([{ id, staged: true, current: false }]);
+
+    publishSnapshot(id);
+
+    expect(listSnapshots()).toMatchObject([{ id, staged: false, current: true }]);
+  });
+});
@@ -0,0 +1,338 @@
+// Import fs and path only in server context
+const fs = typeof window === 'undefined' ? require('fs') : null;
+const path = typeof window === 'undefined' ? require('path') : null;
+import { getDataDir } from './config';
+import { parseDataFile, CmhcDataFile } from './cmhc-schema';
+import type { DataDiff } from './data-diff';
+
+/**
+ * Versioned snapshots of the published data file.
+ * Each refresh is written to snapshots/cmhc-data-<id>.json and validated from disk;
+ * only then is current.json (the "current" pointer) switched to it with an atomic rename.
+ * cmhc-data.json is kept as a copy of the current snapshot so the static
+ * /data/cmhc-data.json URL keeps working. Each snapshot may have a diff
+ * report against the data it replaced, stored beside it as diff-<id>.json.
+ * A snapshot can also be staged (written but not yet published, e.g. by a dry
+ * run); staged ids are listed in snapshots/staged.json until published.
+ */
+
+export const DATA_FILE_NAME = 'cmhc-data.json';
+
+// Number of snapshots kept besides the current one
+export const SNAPSHOT_RETENTION = 10;
+
+const SNAPSHOT_DIR_NAME = 'snapshots';
+const POINTER_FILE_NAME = 'current.json';
+const STAGED_FILE_NAME = 'staged.json';
+
+export interface SnapshotPointer {
+  snapshot: string;
+  publishedAt: string;
+  // Snapshot that was current before this one
+  previous?: string;
+}
+
+export interface SnapshotInfo {
+  id: string;
+  file: string;
+  current: boolean;
+  // Written but never published
+  staged: boolean;
+  valid: boolean;
+  generatedAt?: string;
+  releaseTime?: string;
+  recordCount?: number;
+  error?: string;
+}
+
+const getSnapshotDir = (): string => path.join(getDataDir(), SNAPSHOT_DIR_NAME);
+
+const getSnapshotPath = (id: string): string => path.join(getSnapshotDir(), `cmhc-data-${id}.json`);
+
+const getDiffPath = (id: string): string => path.join(getSnapshotDir(), `diff-${id}.json`);
+
+const getStagedPath = (): string => path.join(getSnapshotDir(), STAGED_FILE_NAME);
+
+/**
+ * Writes a file so readers see either the old or the new contents, never a partial write
+ */
+export const writeFileAtomic = (filePath: string, contents: string) => {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  const fd = fs.openSync(tempPath, 'w');
+  try {
+    fs.writeSync(fd, contents);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tempPath, filePath);
+};
+
+/**
+ * Builds a sortable snapshot id from the time the data was generated, e.g. 20250127T083000Z
+ */
+const createSnapshotId = (generatedAt: string): string => {
+  const base = new Date(generatedAt).toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+
+  let id = base;
+  for (let n = 2; fs.existsSync(getSnapshotPath(id)); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+};
+
+/**
+ * Reads the current pointer, or null when nothing has been published as a snapshot yet
+ */
+export const readSnapshotPointer = (): SnapshotPointer | null => {
+  if (!fs || !path) return null;
+
+  const pointerPath = path.join(getDataDir(), POINTER_FILE_NAME);
+  if (!fs.existsSync(pointerPath)) return null;
+
+  try {
+    const pointer = JSON.parse(fs.readFileSync(pointerPath, 'utf-8'));
+    return pointer && typeof pointer.snapshot === 'string' ? pointer : null;
+  } catch (error) {
+    console.error('Error reading the current snapshot pointer:', error);
+    return null;
+  }
+};
+
+/**
+ * Gets the id of the current snapshot, or null before the first snapshot is published
+ */
+export const getCurrentSnapshotId = (): string | null => {
+  const pointer = readSnapshotPointer();
+  return pointer ? pointer.snapshot : null;
+};
+
+/**
+ * Gets the path of the data file to serve: the current snapshot, or
+ * cmhc-data.json when no snapshot has been published yet
+ */
+export const getCurrentDataFilePath = (): string => {
+  const current = getCurrentSnapshotId();
+  return current ? getSnapshotPath(current) : path.join(getDataDir(), DATA_FILE_NAME);
+};
+
+/**
+ * Reads and validates the data file currently being served, or null when there is none yet
+ */
+export const readCurrentDataFile = (): CmhcDataFile | null => {
+  const filePath = getCurrentDataFilePath();
+  if (!fs.existsSync(filePath)) return null;
+
+  return parseDataFile(fs.readFileSync(filePath, 'utf-8'));
+};
+
+/**
+ * Saves the diff report for a snapshot
+ */
+export const saveSnapshotDiff = (id: string, diff: DataDiff) => {
+  fs.mkdirSync(getSnapshotDir(), { recursive: true });
+  writeFileAtomic(getDiffPath(id), JSON.stringify(diff, null, 2));
+};
+
+/**
+ * Reads the diff report for a snapshot (the current one by default), or null when there is none
+ */
+export const readSnapshotDiff = (id?: string): DataDiff | null => {
+  if (!fs || !path) return null;
+
+  const snapshot = id || getCurrentSnapshotId();
+  if (!snapshot || !/^[\w-]+$/.test(snapshot)) return null;
+
+  const diffPath = getDiffPath(snapshot);
+  if (!fs.existsSync(diffPath)) return null;
+
+  return JSON.parse(fs.readFileSync(diffPath, 'utf-8'));
+};
+
+/**
+ * Writes a data file as a new snapshot and validates it as written; returns the snapshot id
+ */
+export const createSnapshot = (file: CmhcDataFile): string => {
+  fs.mkdirSync(getSnapshotDir(), { recursive: true });
+
+  const id = createSnapshotId(file.metadata.generatedAt);
+  const snapshotPath = getSnapshotPath(id);
+  writeFileAtomic(snapshotPath, JSON.stringify(file, null, 2));
+
+  // Read back what reached the disk before anything can point at it
+  try {
+    parseDataFile(fs.readFileSync(snapshotPath, 'utf-8'));
+  } catch (error) {
+    fs.rmSync(snapshotPath, { force: true });
+    throw error;
+  }
+
+  return id;
+};
+
+/**
+ * Reads the ids of the staged snapshots
+ */
+const readStagedIds = (): string[] => {
+  if (!fs.existsSync(getStagedPath())) return [];
+
+  try {
+    const ids = JSON.parse(fs.readFileSync(getStagedPath(), 'utf-8'));
+    return Array.isArray(ids) ? ids : [];
+  } catch (error) {
+    console.error('Error reading the staged snapshot list:', error);
+    return [];
+  }
+};
+
+const writeStagedIds = (ids: string[]) => {
+  writeFileAtomic(getStagedPath(), JSON.stringify(ids, null, 2));
+};
+
+/**
+ * Marks a snapshot as staged: kept for review and published later with publishSnapshot
+ */
+export const stageSnapshot = (id: string) => {
+  const staged = readStagedIds();
+  if (!staged.includes(id)) {
+    writeStagedIds([...staged, id]);
+  }
+};
+
+/**
+ * Keeps the pre-snapshot cmhc-data.json as a snapshot so a rollback can return to it
+ */
+const adoptLegacyDataFile = () => {
+  const legacyPath = path.join(getDataDir(), DATA_FILE_NAME);
+  if (!fs.existsSync(legacyPath)) return;
+
+  try {
+    const id = createSnapshot(parseDataFile(fs.readFileSync(legacyPath, 'utf-8')));
+    console.log(`Kept the existing ${DATA_FILE_NAME} as snapshot ${id}`);
+  } catch (error) {
+    console.warn(`Existing ${DATA_FILE_NAME} is not valid and was not kept as a snapshot:`, error);
+  }
+};
+
+/**
+ * Lists the snapshots, newest first
+ */
+export const listSnapshots = (): SnapshotInfo[] => {
+  if (!fs || !path || !fs.existsSync(getSnapshotDir())) return [];
+
+  const current = getCurrentSnapshotId();
+  const staged = readStagedIds();
+
+  return (fs.readdirSync(getSnapshotDir()) as string[])
+    .map(name => name.match(/^cmhc-data-(.+)\.json$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => match[1])
+    .sort()
+    .reverse()
+    .map(id => {
+      const file = getSnapshotPath(id);
+      try {
+        const { metadata } = parseDataFile(fs.readFileSync(file, 'utf-8'));
+        return {
+          id,
+          file,
+          current: id === current,
+          staged: staged.includes(id),
+          valid: true,
+          generatedAt: metadata.generatedAt,
+          releaseTime: metadata.releaseTime,
+          recordCount: metadata.recordCount
+        };
+      } catch (error) {
+        return {
+          id,
+          file,
+          current: id === current,
+          staged: staged.includes(id),
+          valid: false,
+          error: error instanceof Error ? error.message : String(error)
+        };
+      }
+    });
+};
+
+/**
+ * Deletes the oldest snapshots beyond the retention limit, never the current one
+ */
+const pruneSnapshots = () => {
+  const current = getCurrentSnapshotId();
+  const stale = listSnapshots()
+    .filter(snapshot => snapshot.id !== current)
+    .slice(SNAPSHOT_RETENTION);
+
+  for (const snapshot of stale) {
+    fs.rmSync(snapshot.file, { force: true });
+    fs.rmSync(getDiffPath(snapshot.id), { force: true });
+  }
+
+  // Forget staged snapshots that were pruned
+  const staged = readStagedIds();
+  const remaining = staged.filter(id => fs.existsSync(getSnapshotPath(id)));
+  if (remaining.length !== staged.length) {
+    writeStagedIds(remaining);
+  }
+};
+
+/**
+ * Validates a snapshot and atomically makes it the current data file
+ */
+export const publishSnapshot = (id: string): SnapshotPointer => {
+  if (!/^[\w-]+$/.test(id)) {
+    throw new Error(`Invalid snapshot id: ${id}`);
+  }
+
+  const snapshotPath = getSnapshotPath(id);
+  if (!fs.existsSync(snapshotPath)) {
+    throw new Error(`Snapshot ${id} does not exist`);
+  }
+
+  // Throws DataSchemaError for a snapshot that is corrupt or does not match the schema
+  const contents = fs.readFileSync(snapshotPath, 'utf-8');
+  parseDataFile(contents);
+
+  const previous = readSnapshotPointer();
+  if (!previous) {
+    adoptLegacyDataFile();
+  }
+
+  const pointer: SnapshotPointer = {
+    snapshot: id,
+    publishedAt: new Date().toISOString(),
+    previous: previous ? previous.snapshot : undefined
+  };
+
+  // The pointer switch is the commit point; the static copy follows it
+  writeFileAtomic(path.join(getDataDir(), POINTER_FILE_NAME), JSON.stringify(pointer, null, 2));
+  writeFileAtomic(path.join(getDataDir(), DATA_FILE_NAME), contents);
+
+  const staged = readStagedIds();
+  if (staged.includes(id)) {
+    writeStagedIds(staged.filter(stagedId => stagedId !== id));
+  }
+
+  pruneSnapshots();
+
+  return pointer;
+};
+
+/**
+ * Points "current" back at an earlier snapshot: the given one, or the newest
+ * valid, previously published snapshot older than the current one
+ */
+export const rollbackSnapshot = (id?: string): SnapshotPointer => {
+  if (id) return publishSnapshot(id);
+
+  const current = getCurrentSnapshotId();
+  const target = listSnapshots().find(snapshot => snapshot.valid && !snapshot.staged && (current === null || snapshot.id < current));
+
+  if (!target) {
+    throw new Error('No earlier valid snapshot to roll back to');
+  }
+
+  return publishSnapshot(target.id);
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { describeSurveyPeriod, formatRefDate, normalizeRefDate, parseRefDate, selectLatestPeriod } from './survey-periods';
+
+describe('parseRefDate', () => {
+  it('reads dates, months and bare years as the October survey', () => {
+    expect(parseRefDate('2024-04-01')).toEqual({ year: 2024, date: new Date(2024, 3, 1) });
+    expect(parseRefDate('2024-04')).toEqual({ year: 2024, date: new Date(2024, 3, 1) });
+    expect(parseRefDate('2024')).toEqual({ year: 2024, date: new Date(2024, 9, 1) });
+  });
+
+  it('reads the year and month from text', () => {
+    expect(parseRefDate('April 2023')).toEqual({ year: 2023, date: new Date(2023, 3, 1) });
+    expect(parseRefDate('Reference period: 2022')).toEqual({ year: 2022, date: new Date(2022, 9, 1) });
+  });
+
+  it('gives nothing for a period it cannot read', () => {
+    expect(parseRefDate('')).toEqual({});
+    expect(parseRefDate('2024-13')).toEqual({});
+    expect(parseRefDate('unknown')).toEqual({});
+  });
+});
+
+describe('normalizeRefDate', () => {
+  it('stores periods as dates and keeps ones it cannot read', () => {
+    expect(normalizeRefDate('2024')).toBe('2024-10-01');
+    expect(normalizeRefDate('2024-4')).toBe('2024-04-01');
+    expect(normalizeRefDate('unknown')).toBe('unknown');
+    expect(formatRefDate(new Date(2023, 9, 1))).toBe('2023-10-01');
+  });
+});
+
+describe('describeSurveyPeriod', () => {
+  it('names the survey month', () => {
+    expect(describeSurveyPeriod('2024-10-01')).toBe('October 2024');
+    expect(describeSurveyPeriod('2024-04-01')).toBe('April 2024');
+    expect(describeSurveyPeriod(undefined)).toBeUndefined();
+  });
+});
+
+describe('selectLatestPeriod', () => {
+  it('keeps only the most recent survey', () => {
+    const records = [
+      { RefDate: '2023-10-01', VALUE: 1 },
+      { RefDate: '2024-04-01', VALUE: 2 },
+      { RefDate: '2024', VALUE: 3 },
+      { RefDate: '2024-10-01', VALUE: 4 }
+    ];
+
+    expect(selectLatestPeriod(records).map(record => record.VALUE)).toEqual([3, 4]);
+    expect(selectLatestPeriod([{ RefDate: undefined, VALUE: 5 }])).toEqual([{ RefDate: undefined, VALUE: 5 }]);
+  });
+});
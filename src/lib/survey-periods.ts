@@ -0,0 +1,88 @@
+/**
+ * Reference periods of the CMHC Rental Market Survey. The survey is taken in
+ * October; in some years larger centres were also surveyed in April, which the
+ * tables publish as a separate reference period. Periods are stored as dates
+ * ("2024-10-01"); a bare year ("2024") stands for that year's October survey.
+ */
+
+// Month (1-12) of the annual survey
+export const SURVEY_MONTH = 10;
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Parses a reference period ("2024", "2024-04", "2024-10-01" or text naming a
+ * year and optionally a month) into its year and the date it refers to
+ */
+export const parseRefDate = (refDate: string): { year?: number, date?: Date } => {
+  if (!refDate) return {};
+
+  // Try YYYY-MM or YYYY-MM-DD format
+  const dateMatch = refDate.match(/^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?$/);
+  if (dateMatch) {
+    const year = parseInt(dateMatch[1], 10);
+    const month = parseInt(dateMatch[2], 10);
+    const day = dateMatch[3] ? parseInt(dateMatch[3], 10) : 1;
+    if (month < 1 || month > 12) return {};
+    return { year, date: new Date(year, month - 1, day) };
+  }
+
+  // Try YYYY format: the October survey of that year
+  if (/^\d{4}$/.test(refDate)) {
+    const year = parseInt(refDate, 10);
+    return { year, date: new Date(year, SURVEY_MONTH - 1, 1) };
+  }
+
+  // Try to extract the year, and a month name if there is one, from text (like "April 2023")
+  const yearMatch = refDate.match(/\b(20\d{2})\b/);
+  if (yearMatch) {
+    const year = parseInt(yearMatch[1], 10);
+    const month = MONTH_NAMES.findIndex(name => new RegExp(`\\b${name}\\b`, 'i').test(refDate));
+    return { year, date: new Date(year, month === -1 ? SURVEY_MONTH - 1 : month, 1) };
+  }
+
+  return {};
+};
+
+/**
+ * Formats a date as a stored reference period, e.g. "2024-10-01"
+ */
+export const formatRefDate = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Normalizes a reference period to a date; periods that cannot be parsed are kept as published
+ */
+export const normalizeRefDate = (refDate: string): string => {
+  const { date } = parseRefDate(refDate);
+  return date ? formatRefDate(date) : refDate;
+};
+
+/**
+ * Describes a reference period for people, e.g. "October 2024"
+ */
+export const describeSurveyPeriod = (refDate: string | undefined): string | undefined => {
+  const { date } = parseRefDate(refDate || '');
+  return date ? `${MONTH_NAMES[date.getMonth()]} ${date.getFullYear()}` : undefined;
+};
+
+/**
+ * Keeps the records of the most recent reference period, so the April and
+ * October surveys of one year are never averaged together
+ */
+export const selectLatestPeriod = <T extends { RefDate?: string }>(records: T[]): T[] => {
+  const periods = records
+    .map(record => record.RefDate)
+    .filter((refDate): refDate is string => !!refDate)
+    .map(normalizeRefDate)
+    .sort();
+  if (periods.length === 0) return records;
+
+  const latest = periods[periods.length - 1];
+  return records.filter(record => record.RefDate !== undefined && normalizeRefDate(record.RefDate) === latest);
+};
@@ -1,7 +1,7 @@
 /**
  * Test script to analyze the Statistics Canada data structure
  */
-import { fetchRentalData, getAverage } from './cmhc';
+import { fetchRentalData, getAverage, getAvailableCities, getCityOptions } from './cmhc';
 
 async function testRentalData() {
   console.log('Starting data fetch test...');
@@ -20,43 +20,19 @@ async function testRentalData() {
         console.log(`${key}: ${firstRecord[key]}`);
       });
       
-      // Extract all unique cities from the data
-      const cities = data.map(item => {
-        // Extract the city name from the GEO field
-        let city = item.GEO;
-        
-        // Remove province/state information
-        city = city.replace(/, Ontario$/, '')
-                  .replace(/, ON$/, '')
-                  .replace(/ \(Ontario\)$/, '')
-                  .replace(/ Ontario$/, '');
-        
-        // Remove CMA/CA/ER designations
-        city = city.replace(/ CMA$/, '')
-                  .replace(/ CA$/, '')
-                  .replace(/ \(CMA\)$/, '')
-                  .replace(/ \(CA\)$/, '')
-                  .replace(/ Census Metropolitan Area$/, '')
-                  .replace(/ Census Agglomeration$/, '')
-                  .replace(/ Economic Region$/, '');
-        
-        return city.trim();
-      });
-      
-      // Get unique city names and sort alphabetically
-      const uniqueCities = Array.from(new Set(cities)).sort();
+      // Area names from the geography table
+      const uniqueCities = await getAvailableCities();
       
       console.log('\n=== ACTUAL CITIES AVAILABLE IN CMHC DATA ===');
       console.log(`Found ${uniqueCities.length} unique cities:`);
       console.log(JSON.stringify(uniqueCities, null, 2));
       
-      // Also print as array format for easy copying
-      console.log('\n=== CITY ARRAY FOR CODE ===');
-      console.log(`export const ONTARIO_CITIES = [`);
-      uniqueCities.forEach((city, index) => {
-        console.log(`  '${city}'${index < uniqueCities.length - 1 ? ',' : ''}`);
+      // What the dropdown offers for each city (served by /api/cities)
+      const options = await getCityOptions();
+      console.log('\n=== BEDROOM TYPES AND CATEGORIES PER CITY ===');
+      options.forEach(option => {
+        console.log(`${option.name}: ${option.beds.map(beds => `${beds} [${option.categories[beds].join(', ') || 'no categories'}]`).join('; ')}`);
       });
-      console.log(`];`);
       
       // List bedroom types
       const bedroomTypes = Array.from(new Set(data.map(item => item.Bedrooms))).sort();
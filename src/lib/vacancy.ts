@@ -0,0 +1,20 @@
+/**
+ * Market tightness from CMHC vacancy rates.
+ * CMHC treats a vacancy rate around 3% as a balanced rental market; below it
+ * tenants compete for units, above it landlords compete for tenants.
+ */
+
+export type MarketCondition = 'tight' | 'balanced' | 'loose';
+
+// Vacancy rate (percent) bounds of a balanced market
+const BALANCED_MIN_RATE = 3;
+const BALANCED_MAX_RATE = 5;
+
+/**
+ * Classifies a market by its vacancy rate in percent
+ */
+export const classifyVacancyRate = (rate: number): MarketCondition => {
+  if (rate < BALANCED_MIN_RATE) return 'tight';
+  if (rate > BALANCED_MAX_RATE) return 'loose';
+  return 'balanced';
+};
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Keeps the data directory's working files private. Only the published
+ * cmhc-data.json is meant to be served from /data; snapshots, the current
+ * pointer, the refresh job history and the refresh lock live beside it in
+ * public/data (the default CMHC_DATA_DIR) but are not public.
+ */
+export function middleware(request: NextRequest) {
+  if (request.nextUrl.pathname === '/data/cmhc-data.json') {
+    return NextResponse.next();
+  }
+
+  return NextResponse.json({ error: 'Not found' }, { status: 404 });
+}
+
+export const config = {
+  matcher: '/data/:path*'
+};